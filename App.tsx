@@ -2,13 +2,69 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { InpaintCanvas } from './components/InpaintCanvas';
-import { ImageState, Ethnicity, BodyShape, Gender, GenerationStatus, EngineResult, FitProfile, AspectRatio, PoseStyle, Product, GeneratedArtifact, ModelPose } from './types';
-import { createFitProfile, generateFashionPrompt, synthesizeFashionImage, generateDescription } from './services/geminiService';
-import { parseProductCSV } from './services/csvParser';
+import { BlueprintLab } from './components/BlueprintLab';
+import { VersionTree } from './components/VersionTree';
+import { PresetPanel } from './components/PresetPanel';
+import { EngineSettings } from './components/EngineSettings';
+import { BatchRenderPanel } from './components/BatchRenderPanel';
+import { ExportManifest } from './components/ExportManifest';
+import { ProductEditor } from './components/ProductEditor';
+import { ReferencePicker } from './components/ReferencePicker';
+import { ImportWizard } from './components/ImportWizard';
+import { ColumnMapper } from './components/ColumnMapper';
+import { BrandRulesEditor } from './components/BrandRulesEditor';
+import { LookbookPanel } from './components/LookbookPanel';
+import { CastingLibrary } from './components/CastingLibrary';
+import { SceneOptionPicker } from './components/SceneOptionPicker';
+import { VisionCompare } from './components/VisionCompare';
+import { VisionGallery } from './components/VisionGallery';
+import { ImageState, Ethnicity, BodyShape, Gender, GenerationStatus, FitProfile, AspectRatio, PoseStyle, Product, GeneratedArtifact, ModelPose, SavedBlueprint, BatchJob, BatchRenderSettings, BatchStudioSettings, ExportEntry, StorePlatform, CopyTone, GenerationParams, StudioPreset, AutoMaskTarget, ColumnMapping, CsvDelimiter, ImportMappingProfile, BrandQaReport, BrandRuleProfile, Lookbook, ModelIdentity, CastModel, SceneOption, VisionReview } from './types';
+import { createFitProfile, generateFashionPrompt, synthesizeFashionImage, generateDescription, locateMaskRegions, auditBrandGuardrails, describeModelIdentity, synthesizeCastHeadshot, buildQaFixDirective, AUTO_MASK_TARGETS } from './services/geminiService';
+import { DEFAULT_MASK_FEATHER, MaskRegionLayer, exportMask, loadImageSize } from './services/maskRaster';
+import { parseProductCSV, decodeImportBytes } from './services/csvParser';
+import { pickImportAdapter } from './services/importAdapters';
+import { SIGNATURE_BRAND_PROFILE, findBrandProfile, latestBrandProfiles, resolveBrandProfile } from './services/brandRules';
+import { BODY_SHAPES, BUILT_IN_LOCATIONS, BUILT_IN_POSES, CUSTOM_LOCATION, resolveSceneOption } from './services/scenes';
+import { buildCoverageReport, describeCastModel } from './services/casting';
+import { buildZip } from './services/zipArchive';
+import { planVisionDeletion } from './services/visionCleanup';
+import { applyProductMerge, planProductMerge, MergeChoices, MergeItem } from './services/productMerge';
+import { getEngineConfig, setEngineConfig, EngineConfig } from './services/engineConfig';
+import { classifyEngineError } from './services/engineErrors';
+import { fetchImageAsState, fileToImageState } from './services/imageFetcher';
+import { hasBrokenImage, matchFileToProduct, needsManualUpload, probeInventoryImages } from './services/imageProbe';
+import { buildExportCSV, inferExportPlatform } from './services/csvExporter';
+import { createBatchQueue, expandBatchMatrix, BatchQueueHandle, BatchQueueState } from './services/batchQueue';
+import { loadProducts, saveProducts, loadExportList, saveExportList, saveVision, updateVision, deleteVision, loadVision, loadVisionImages, loadVisionFamily, savePatternImage, loadPatternImage, deletePatternImages, saveLookbook, deleteLookbook, loadLookbooks, loadLookbookShots, loadVisionRecords, getStorageUsage, migrateLegacyStorage, StorageUsage } from './services/storage';
 
-const DB_STORAGE_KEY = 'zimbabalooba_product_db';
-const EXPORT_LIST_KEY = 'zimbabalooba_export_list';
-const VISIONS_STORAGE_KEY = 'zimbabalooba_visions_gallery';
+const BLUEPRINTS_STORAGE_KEY = 'zimbabalooba_fit_blueprints';
+const PRESETS_STORAGE_KEY = 'zimbabalooba_studio_presets';
+const MAPPING_PROFILES_STORAGE_KEY = 'zimbabalooba_import_mappings';
+const BRAND_RULES_STORAGE_KEY = 'zimbabalooba_brand_rules';
+const CAST_MODELS_STORAGE_KEY = 'zimbabalooba_cast_models';
+const CUSTOM_POSES_STORAGE_KEY = 'zimbabalooba_custom_poses';
+const LOCATION_PRESETS_STORAGE_KEY = 'zimbabalooba_location_presets';
+
+const QUICK_DIRECTIVES: { label: string; directive: string; maskTarget?: AutoMaskTarget }[] = [
+  { label: 'Fix Logos', directive: "Sharpen the brand logos. Ensure the hem markers are clearly visible and precisely placed.", maskTarget: 'hem_labels' },
+  { label: 'Vibrancy+', directive: "Make the color significantly lighter and more vibrant, boost saturation.", maskTarget: 'trousers' },
+  { label: 'New Shoes', directive: "Change the shoes to high-end minimalist fashion sneakers.", maskTarget: 'shoes' }
+];
+
+const IMAGE_CHECK_CHUNK_SIZE = 25;
+
+// A batch and the data its jobs read, captured when it is queued
+interface BatchRun {
+  settings: BatchRenderSettings;
+  products: Product[];
+  castModels: CastModel[];
+  blueprints: SavedBlueprint[];
+  brandHistory: BrandRuleProfile[];
+  locations: SceneOption[];
+  poses: SceneOption[];
+}
+
+const DEFAULT_LOOKBOOK_POSES: ModelPose[] = ['Relaxed Standing', 'Side Profile', 'Back Architecture', 'Walking Motion'];
 
 const PRETRAINED_SIGNATURE_BLUEPRINT: FitProfile = {
   description: "The Zimbabalooba Signature silhouette: A high-rise, voluminous architectural trouser. Mandatory features: a heavy gathered elasticated waistband with an invisible or very thin internal drawstring, and twin oval brand labels at the lower leg hems.",
@@ -20,7 +76,25 @@ const PRETRAINED_SIGNATURE_BLUEPRINT: FitProfile = {
   }
 };
 
+const SIGNATURE_BLUEPRINT: SavedBlueprint = {
+  ...PRETRAINED_SIGNATURE_BLUEPRINT,
+  id: 'signature',
+  name: 'Architectural Signature',
+  timestamp: 0,
+  referenceCount: 0,
+  isBuiltIn: true
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
 type SortOption = 'newest' | 'name-asc' | 'name-desc' | 'price-high' | 'price-low' | 'size' | 'collection';
+type ImageFilter = 'all' | 'broken' | 'manual';
+
+const MAX_COMPARE = 4;
 
 const InventoryImage: React.FC<{ src: string; alt: string; className?: string }> = ({ src, alt, className }) => {
   const [error, setError] = useState(false);
@@ -36,11 +110,26 @@ const InventoryImage: React.FC<{ src: string; alt: string; className?: string }>
 };
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'studio' | 'visions' | 'inventory' | 'export'>('studio');
+  const [activeTab, setActiveTab] = useState<'studio' | 'blueprints' | 'brand' | 'casting' | 'visions' | 'inventory' | 'export'>('studio');
   const [isKeySelected, setIsKeySelected] = useState<boolean | null>(null);
+  const [engineConfig, setEngineConfigState] = useState<EngineConfig>(getEngineConfig);
+  const [isEngineSettingsOpen, setIsEngineSettingsOpen] = useState(false);
 
   const [patternRef, setPatternRef] = useState<ImageState | null>(null);
-  const [activeProfile] = useState<FitProfile | null>(PRETRAINED_SIGNATURE_BLUEPRINT);
+  const [studioGallery, setStudioGallery] = useState<string[]>([]);
+  const [extraReferences, setExtraReferences] = useState<ImageState[]>([]);
+  const [loadingReferenceUrl, setLoadingReferenceUrl] = useState<string | null>(null);
+  const [studioHandleId, setStudioHandleId] = useState<string | null>(null);
+  const [blueprints, setBlueprints] = useState<SavedBlueprint[]>([]);
+  const [activeBlueprintId, setActiveBlueprintId] = useState<string>(SIGNATURE_BLUEPRINT.id);
+  const [presets, setPresets] = useState<StudioPreset[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<ImportMappingProfile[]>([]);
+  // Every saved version of every brand profile; the newest version of each is the live one
+  const [brandHistory, setBrandHistory] = useState<BrandRuleProfile[]>([]);
+  const [activeBrandId, setActiveBrandId] = useState<string>(SIGNATURE_BRAND_PROFILE.id);
+  const [castModels, setCastModels] = useState<CastModel[]>([]);
+  const [activeCastId, setActiveCastId] = useState<string>('');
+  const [isCasting, setIsCasting] = useState(false);
   const [ethnicity, setEthnicity] = useState<Ethnicity>(Ethnicity.MIXED_RACE);
   const [gender, setGender] = useState<Gender>("Unisex");
   const [bodyShape, setBodyShape] = useState<BodyShape>("Athletic");
@@ -53,20 +142,53 @@ const App: React.FC = () => {
   const [isMaskingMode, setIsMaskingMode] = useState(false);
   const [brushSize, setBrushSize] = useState(40);
   const [activeMask, setActiveMask] = useState<string | null>(null);
+  const [autoMaskQuickEdits, setAutoMaskQuickEdits] = useState(true);
+  const [brandQaEnabled, setBrandQaEnabled] = useState(true);
+  const [autoFixQaFailures, setAutoFixQaFailures] = useState(false);
 
   const [locationStyle, setLocationStyle] = useState<PoseStyle>("Shop Display");
+  const [manualLocation, setManualLocation] = useState('');
+  const [locationPresetName, setLocationPresetName] = useState('');
   const [modelPose, setModelPose] = useState<ModelPose>("Relaxed Standing");
+  const [customPoses, setCustomPoses] = useState<SceneOption[]>([]);
+  const [locationPresets, setLocationPresets] = useState<SceneOption[]>([]);
   const [status, setStatus] = useState<GenerationStatus>({ step: 'idle', message: 'Engine Ready.' });
-  const [result, setResult] = useState<EngineResult | null>(null);
+  const [result, setResult] = useState<GeneratedArtifact | null>(null);
+  const [lineage, setLineage] = useState<GeneratedArtifact[]>([]);
+  const [compareVision, setCompareVision] = useState<GeneratedArtifact | null>(null);
   const [productDb, setProductDb] = useState<Product[]>([]);
-  const [exportList, setExportList] = useState<Product[]>([]);
+  const [exportList, setExportList] = useState<ExportEntry[]>([]);
+  const [exportPlatform, setExportPlatform] = useState<StorePlatform | null>(null);
+  // Every stored vision's record, newest first, without masks. Images are only held for this session's renders;
+  // older ones are read from storage into visionImageUrls as the gallery scrolls to them.
   const [visions, setVisions] = useState<GeneratedArtifact[]>([]);
+  const [visionImageUrls, setVisionImageUrls] = useState<Record<string, string>>({});
+  const [isPackingZip, setIsPackingZip] = useState(false);
+  const [lookbooks, setLookbooks] = useState<Lookbook[]>([]);
+  const [activeLookbook, setActiveLookbook] = useState<{ lookbook: Lookbook; shots: GeneratedArtifact[]; pending: number } | null>(null);
+  const [lookbookPoses, setLookbookPoses] = useState<ModelPose[]>(DEFAULT_LOOKBOOK_POSES);
+  const [selectedVisionIds, setSelectedVisionIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortOption, setSortOption] = useState<SortOption>('newest');
+  const [imageFilter, setImageFilter] = useState<ImageFilter>('all');
+  const [imageCheckProgress, setImageCheckProgress] = useState<{ done: number; total: number } | null>(null);
+  const [localPreviews, setLocalPreviews] = useState<Record<string, string>>({});
 
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; items: MergeItem[] } | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<{ fileName: string; text: string } | null>(null);
+
+  const [selectedHandles, setSelectedHandles] = useState<string[]>([]);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchState, setBatchState] = useState<BatchQueueState | null>(null);
+  const batchQueueRef = useRef<BatchQueueHandle | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
 
   const csvInputRef = useRef<HTMLInputElement>(null);
+  const relinkInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -79,29 +201,168 @@ const App: React.FC = () => {
     };
     checkKey();
 
-    const loadData = () => {
+    const loadData = async () => {
       try {
-        const savedDb = localStorage.getItem(DB_STORAGE_KEY);
-        if (savedDb) setProductDb(JSON.parse(savedDb));
-        const savedExport = localStorage.getItem(EXPORT_LIST_KEY);
-        if (savedExport) setExportList(JSON.parse(savedExport));
-        const savedVisions = localStorage.getItem(VISIONS_STORAGE_KEY);
-        if (savedVisions) setVisions(JSON.parse(savedVisions));
+        const savedBlueprints = localStorage.getItem(BLUEPRINTS_STORAGE_KEY);
+        if (savedBlueprints) setBlueprints(JSON.parse(savedBlueprints));
+        const savedPresets = localStorage.getItem(PRESETS_STORAGE_KEY);
+        if (savedPresets) setPresets(JSON.parse(savedPresets));
+        const savedMappings = localStorage.getItem(MAPPING_PROFILES_STORAGE_KEY);
+        if (savedMappings) setMappingProfiles(JSON.parse(savedMappings));
+        const savedBrandRules = localStorage.getItem(BRAND_RULES_STORAGE_KEY);
+        if (savedBrandRules) setBrandHistory(JSON.parse(savedBrandRules));
+        const savedCastModels = localStorage.getItem(CAST_MODELS_STORAGE_KEY);
+        if (savedCastModels) setCastModels(JSON.parse(savedCastModels));
+        const savedPoses = localStorage.getItem(CUSTOM_POSES_STORAGE_KEY);
+        if (savedPoses) setCustomPoses(JSON.parse(savedPoses));
+        const savedLocations = localStorage.getItem(LOCATION_PRESETS_STORAGE_KEY);
+        if (savedLocations) setLocationPresets(JSON.parse(savedLocations));
       } catch (e) { console.error("Local storage error", e); }
+      try {
+        await migrateLegacyStorage();
+        setProductDb(await loadProducts());
+        setExportList(await loadExportList());
+        setVisions(await loadVisionRecords());
+        setLookbooks(await loadLookbooks());
+        setIsHydrated(true);
+      } catch (e: any) {
+        console.error("IndexedDB error", e);
+        setStatus({ step: 'error', message: `Storage unavailable: ${e?.message || 'IndexedDB could not be opened.'} Changes will not be saved.` });
+      }
+      refreshStorageUsage();
     };
     loadData();
   }, []);
 
-  useEffect(() => { localStorage.setItem(DB_STORAGE_KEY, JSON.stringify(productDb)); }, [productDb]);
-  useEffect(() => { localStorage.setItem(EXPORT_LIST_KEY, JSON.stringify(exportList)); }, [exportList]);
-  useEffect(() => { localStorage.setItem(VISIONS_STORAGE_KEY, JSON.stringify(visions)); }, [visions]);
+  // Writes are held back until the stores are loaded so the initial empty state never overwrites saved data
+  useEffect(() => { if (isHydrated) saveProducts(productDb).catch(reportStorageError); }, [productDb, isHydrated]);
+  useEffect(() => { if (isHydrated) saveExportList(exportList).catch(reportStorageError); }, [exportList, isHydrated]);
+  useEffect(() => { localStorage.setItem(BLUEPRINTS_STORAGE_KEY, JSON.stringify(blueprints)); }, [blueprints]);
+  useEffect(() => { localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets)); }, [presets]);
+  useEffect(() => { localStorage.setItem(MAPPING_PROFILES_STORAGE_KEY, JSON.stringify(mappingProfiles)); }, [mappingProfiles]);
+  useEffect(() => { localStorage.setItem(BRAND_RULES_STORAGE_KEY, JSON.stringify(brandHistory)); }, [brandHistory]);
+  useEffect(() => { localStorage.setItem(CAST_MODELS_STORAGE_KEY, JSON.stringify(castModels)); }, [castModels]);
+  useEffect(() => { localStorage.setItem(CUSTOM_POSES_STORAGE_KEY, JSON.stringify(customPoses)); }, [customPoses]);
+  useEffect(() => { localStorage.setItem(LOCATION_PRESETS_STORAGE_KEY, JSON.stringify(locationPresets)); }, [locationPresets]);
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(() => {});
+  };
+
+  const reportStorageError = (err: any) => {
+    console.error("Storage Error:", err);
+    setStatus({ step: 'error', message: err?.message || 'Storage Error: Changes could not be saved.' });
+  };
+
+  const recordVision = (artifact: GeneratedArtifact) => {
+    // The mask is only read back with the version tree, which loads it from storage
+    const { maskImage, ...record } = artifact;
+    setVisions(prev => [record, ...prev]);
+    saveVision(artifact).then(refreshStorageUsage).catch(reportStorageError);
+  };
+
+  // Loads gallery images as object URLs; ids already loaded or in flight are skipped
+  const visionImageRequestsRef = useRef(new Set<string>());
+  const loadVisionImageUrls = async (ids: string[]) => {
+    const missing = ids.filter(id => !visionImageUrls[id] && !visionImageRequestsRef.current.has(id));
+    if (!missing.length) return;
+    missing.forEach(id => visionImageRequestsRef.current.add(id));
+    try {
+      const blobs = await loadVisionImages(missing);
+      const urls: Record<string, string> = {};
+      blobs.forEach((blob, id) => { urls[id] = URL.createObjectURL(blob); });
+      setVisionImageUrls(prev => ({ ...prev, ...urls }));
+    } catch (err) {
+      reportStorageError(err);
+    } finally {
+      missing.forEach(id => visionImageRequestsRef.current.delete(id));
+    }
+  };
+
+  // Keeps object URLs only for the gallery window and the compare selection, so
+  // scrolling a large archive does not hold every image it passed
+  const showVisionImages = (ids: string[]) => {
+    const keep = new Set([...ids, ...selectedVisionIds]);
+    const evicted = Object.keys(visionImageUrls).filter(id => !keep.has(id));
+    if (evicted.length) {
+      evicted.forEach(id => URL.revokeObjectURL(visionImageUrls[id]));
+      setVisionImageUrls(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !evicted.includes(id))));
+    }
+    loadVisionImageUrls(ids);
+  };
+
+  // Studio edits and export entries need the image itself, not a gallery preview
+  const withVisionImage = async (vision: GeneratedArtifact): Promise<GeneratedArtifact> => {
+    if (vision.imageUrl) return vision;
+    const stored = await loadVision(vision.id);
+    if (!stored?.imageUrl) throw new Error('The image for this vision is no longer stored.');
+    return { ...stored, ...vision, imageUrl: stored.imageUrl };
+  };
+
+  const allBlueprints = useMemo(() => [SIGNATURE_BLUEPRINT, ...blueprints], [blueprints]);
+  const activeProfile: SavedBlueprint | null = allBlueprints.find(bp => bp.id === activeBlueprintId) || SIGNATURE_BLUEPRINT;
+  const brandProfiles = useMemo(() => latestBrandProfiles(brandHistory), [brandHistory]);
+  const activeBrand = findBrandProfile(brandHistory, activeBrandId);
+  const allPoses = useMemo(() => [...BUILT_IN_POSES, ...customPoses], [customPoses]);
+  // Presets sit between the built-in settings and the free-text Custom option
+  const allLocations = useMemo(() => [
+    ...BUILT_IN_LOCATIONS.filter(l => l.name !== CUSTOM_LOCATION),
+    ...locationPresets,
+    ...BUILT_IN_LOCATIONS.filter(l => l.name === CUSTOM_LOCATION)
+  ], [locationPresets]);
+
+  const lineageRootId = result ? (result.rootId || result.id) : null;
+
+  useEffect(() => {
+    setCompareVision(null);
+    if (!lineageRootId) { setLineage([]); return; }
+    let isStale = false;
+    loadVisionFamily(lineageRootId)
+      .then(family => { if (!isStale) setLineage(family); })
+      .catch(reportStorageError);
+    return () => { isStale = true; };
+  }, [lineageRootId]);
+
+  // Versions saved this session may not have reached IndexedDB yet, so merge in the in-memory ones.
+  // Records without an image keep the one loaded with the lineage.
+  const versionHistory = useMemo(() => {
+    if (!lineageRootId) return [];
+    const merged = new Map<string, GeneratedArtifact>();
+    [...lineage, ...visions.filter(v => (v.rootId || v.id) === lineageRootId), ...(result ? [result] : [])]
+      .forEach(v => merged.set(v.id, { ...v, imageUrl: v.imageUrl || merged.get(v.id)?.imageUrl || '' }));
+    return Array.from(merged.values());
+  }, [lineage, visions, result, lineageRootId]);
+
+  // Relinked files and cast headshots live in the pattern store; load previews for any not shown yet
+  useEffect(() => {
+    const missing = [...productDb.map(p => p.localImageId), ...castModels.map(m => m.anchorImageId)]
+      .filter((id): id is string => !!id && !localPreviews[id]);
+    if (!missing.length) return;
+    Promise.all(missing.map(id => loadPatternImage(id).catch(() => null)))
+      .then(images => setLocalPreviews(prev => {
+        const next = { ...prev };
+        images.forEach((image, i) => { if (image) next[missing[i]] = image.previewUrl; });
+        return next;
+      }));
+  }, [productDb, castModels]);
+
+  const castCoverage = useMemo(
+    () => activeTab === 'casting' && isHydrated ? buildCoverageReport(productDb, visions) : null,
+    [activeTab, productDb, visions, isHydrated]
+  );
+
+  const imageIssueCounts = useMemo(() => ({
+    broken: productDb.filter(hasBrokenImage).length,
+    manual: productDb.filter(needsManualUpload).length
+  }), [productDb]);
 
   const sortedAndFilteredDb = useMemo(() => {
     const filtered = productDb.filter(p => 
+      (imageFilter === 'all' || (imageFilter === 'broken' ? hasBrokenImage(p) : needsManualUpload(p))) && (
       p.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       (p.description && p.description.toLowerCase().includes(searchQuery.toLowerCase())) ||
       (p.collection && p.collection.toLowerCase().includes(searchQuery.toLowerCase())) ||
-      (p.sku && p.sku.toLowerCase().includes(searchQuery.toLowerCase()))
+      (p.sku && p.sku.toLowerCase().includes(searchQuery.toLowerCase())))
     );
 
     return [...filtered].sort((a, b) => {
@@ -130,59 +391,640 @@ const App: React.FC = () => {
           return 0;
       }
     });
-  }, [productDb, searchQuery, sortOption]);
+  }, [productDb, searchQuery, sortOption, imageFilter]);
+
+  /**
+   * Shows the message for an engine failure's kind. Auth failures send the user
+   * back to key selection; a cancelled render is not treated as an error.
+   */
+  const reportEngineError = (err: any, label: string) => {
+    const engineError = classifyEngineError(err);
+    console.error(`${label}:`, err);
+    if (engineError.kind === 'auth') setIsKeySelected(false);
+    if (engineError.kind === 'cancelled') setStatus({ step: 'idle', message: engineError.message });
+    else setStatus({ step: 'error', message: engineError.message });
+  };
 
-  const startProduction = async (refinement?: string) => {
+  const cancelProduction = () => renderAbortRef.current?.abort();
+
+  /**
+   * Runs the brand QA pass on a render. A failed check must not lose the render,
+   * so engine errors here only leave the vision unchecked.
+   */
+  const runBrandQa = async (
+    imageUrl: string,
+    brand: BrandRuleProfile,
+    signal: AbortSignal,
+    profile: FitProfile | null = activeProfile,
+    enabled = brandQaEnabled
+  ): Promise<BrandQaReport | undefined> => {
+    if (!enabled || !profile) return undefined;
+    try {
+      return await auditBrandGuardrails(imageUrl, profile, brand, { signal });
+    } catch (err: any) {
+      if (classifyEngineError(err).kind === 'cancelled') throw err;
+      console.warn("Brand QA skipped:", err);
+      return undefined;
+    }
+  };
+
+  const startProduction = async (refinement?: string, maskOverride?: string) => {
     if (!activeProfile || !patternRef) return;
     const finalRefinement = refinement || refinementPrompt;
-    const isEdit = !!(result && (finalRefinement || activeMask));
+    const mask = maskOverride || activeMask;
+    const isEdit = !!(result && (finalRefinement || mask));
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
 
     setStatus({ step: 'rendering', message: isEdit ? 'Processing Smart Refinement...' : 'Synthesizing Vision...' });
     
     try {
-      const prompt = await generateFashionPrompt(
-        activeProfile, 
-        patternRef, 
-        ethnicity,
-        gender, 
-        bodyShape,
-        patternScale, 
-        brightness, 
-        locationStyle, 
-        modelPose,
-        finalRefinement, 
-        !!activeMask
-      );
-      
-      const imageUrl = await synthesizeFashionImage(
-        prompt, 
-        aspectRatio, 
-        isEdit ? result?.imageUrl : undefined, 
-        activeMask || undefined,
-        patternRef // Pass reference to help image generator
-      );
-
-      if (!imageUrl) throw new Error("Synthesis failed: Empty image result.");
-
-      const newArtifact: GeneratedArtifact = { id: Date.now().toString(), timestamp: Date.now(), generatedPrompt: prompt, imageUrl };
-      setResult(newArtifact);
-      setVisions(prev => [newArtifact, ...prev]);
-      setStatus({ step: 'completed', message: 'Vision Synthesized Successfully.' });
+      const params = await captureStudioParams(true);
+      const references = [patternRef, ...extraReferences];
+      const castIdentity = await loadCastIdentity(activeCastId);
+      let source = isEdit ? result : null;
+      let directive = finalRefinement;
+      let passMask = mask;
+
+      // A failed QA pass may trigger exactly one automatic fix, rendered as a child of the failed vision
+      for (let pass = 0; pass < 2; pass++) {
+        const prompt = await generateFashionPrompt(
+          activeProfile, 
+          references, 
+          ethnicity,
+          gender, 
+          bodyShape,
+          patternScale, 
+          brightness, 
+          resolveSceneOption(allLocations, locationStyle), 
+          resolveSceneOption(allPoses, modelPose),
+          {
+            refinementInstruction: directive,
+            hasMask: !!passMask,
+            manualLocation,
+            brand: activeBrand,
+            // Edits keep the person already in the source image
+            identity: source ? undefined : castIdentity,
+            signal: controller.signal
+          }
+        );
+        
+        const imageUrl = await synthesizeFashionImage(prompt, aspectRatio, {
+          sourceImage: source?.imageUrl,
+          maskImage: passMask || undefined,
+          referenceImages: references, // Pass references to help image generator
+          identityImage: source ? undefined : castIdentity?.anchorImageUrl,
+          signal: controller.signal
+        });
+
+        if (!imageUrl) throw new Error("Synthesis failed: Empty image result.");
+
+        if (brandQaEnabled) setStatus({ step: 'rendering', message: 'Checking brand guardrails...' });
+        const qa = await runBrandQa(imageUrl, activeBrand, controller.signal);
+
+        const id = Date.now().toString();
+        const handleId = (source ? source.handleId : studioHandleId) || undefined;
+        const newArtifact: GeneratedArtifact = {
+          id,
+          timestamp: Date.now(),
+          generatedPrompt: prompt,
+          imageUrl,
+          handleId,
+          parentId: source?.id,
+          rootId: source ? (source.rootId || source.id) : id,
+          directive: directive || undefined,
+          maskImage: passMask || undefined,
+          params,
+          qa
+        };
+        setResult(newArtifact);
+        recordVision(newArtifact);
+        if (handleId) {
+          setProductDb(prev => prev.map(p => p.handleId === handleId ? { ...p, visionIds: [...(p.visionIds || []), newArtifact.id] } : p));
+        }
+
+        const fix = qa && !qa.passed && autoFixQaFailures && pass === 0 ? buildQaFixDirective(qa, activeProfile, activeBrand) : '';
+        if (!fix) {
+          setStatus(qa && !qa.passed
+            ? { step: 'error', message: `Vision synthesized, but brand QA failed: ${qa.checks.filter(c => !c.passed).map(c => c.label).join(', ')}.` }
+            : { step: 'completed', message: 'Vision Synthesized Successfully.' });
+          break;
+        }
+        setStatus({ step: 'rendering', message: 'Brand QA failed. Applying automatic fix...' });
+        source = newArtifact;
+        directive = `Auto QA fix: ${fix}`;
+        passMask = null;
+      }
       setRefinementPrompt('');
       setIsMaskingMode(false);
       setActiveMask(null);
     } catch (err: any) {
-      console.error("Engine Error:", err);
-      if (err?.message?.includes("Requested entity was not found")) {
-        setIsKeySelected(false);
+      reportEngineError(err, "Engine Error");
+    } finally {
+      if (renderAbortRef.current === controller) renderAbortRef.current = null;
+    }
+  };
+
+  /**
+   * Renders one shot per selected pose with the same model. The first shot is the
+   * identity anchor: it is described once, and both the description and the
+   * image go along with every later shot. A selected cast model replaces the
+   * anchor shot as the identity source.
+   */
+  const startLookbook = async () => {
+    if (!activeProfile || !patternRef || !lookbookPoses.length) return;
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    const signal = controller.signal;
+    const poses = allPoses.map(p => p.name).filter(p => lookbookPoses.includes(p));
+    const handleId = studioHandleId || undefined;
+    const shots: GeneratedArtifact[] = [];
+    let identity: ModelIdentity | undefined;
+    const lookbookId = `lookbook-${Date.now()}`;
+    const buildLookbook = (): Lookbook => ({
+      id: lookbookId,
+      timestamp: Date.now(),
+      handleId,
+      productName: productDb.find(p => p.handleId === handleId)?.name,
+      identity: identity?.description || '',
+      anchorVisionId: shots[0]?.id || '',
+      shotIds: shots.map(s => s.id),
+      poses: shots.map(s => s.params!.modelPose)
+    });
+
+    setResult(null);
+    setActiveLookbook({ lookbook: buildLookbook(), shots: [], pending: poses.length });
+    try {
+      const params = await captureStudioParams(true);
+      const references = [patternRef, ...extraReferences];
+      identity = await loadCastIdentity(activeCastId);
+      for (const [i, pose] of poses.entries()) {
+        setStatus({ step: 'rendering', message: `Lookbook shot ${i + 1}/${poses.length}: ${pose}...` });
+        const prompt = await generateFashionPrompt(
+          activeProfile,
+          references,
+          ethnicity,
+          gender,
+          bodyShape,
+          patternScale,
+          brightness,
+          resolveSceneOption(allLocations, locationStyle),
+          resolveSceneOption(allPoses, pose),
+          { manualLocation, brand: activeBrand, identity, signal }
+        );
+        const imageUrl = await synthesizeFashionImage(prompt, aspectRatio, { referenceImages: references, identityImage: identity?.anchorImageUrl, signal });
+        if (!imageUrl) throw new Error("Synthesis failed: Empty image result.");
+        const qa = await runBrandQa(imageUrl, activeBrand, signal);
+
+        const id = `${Date.now()}-${i}`;
+        const shot: GeneratedArtifact = {
+          id,
+          timestamp: Date.now(),
+          generatedPrompt: prompt,
+          imageUrl,
+          handleId,
+          rootId: id,
+          params: { ...params, modelPose: pose },
+          qa,
+          lookbookId
+        };
+        shots.push(shot);
+        recordVision(shot);
+        if (handleId) {
+          setProductDb(prev => prev.map(p => p.handleId === handleId ? { ...p, visionIds: [...(p.visionIds || []), id] } : p));
+        }
+        if (!identity) {
+          setStatus({ step: 'rendering', message: 'Locking model identity...' });
+          identity = { description: await describeModelIdentity(imageUrl, { signal }), anchorImageUrl: imageUrl };
+        } else if (!identity.anchorImageUrl) {
+          // A cast model without a headshot still needs a face to match in later shots
+          identity = { ...identity, anchorImageUrl: imageUrl };
+        }
+        setActiveLookbook({ lookbook: buildLookbook(), shots: [...shots], pending: poses.length - shots.length });
+      }
+      const failed = shots.filter(s => s.qa && !s.qa.passed).length;
+      setStatus(failed
+        ? { step: 'error', message: `Lookbook rendered, but ${failed} of ${shots.length} shots failed brand QA.` }
+        : { step: 'completed', message: `Lookbook rendered: ${shots.length} shots with one model.` });
+    } catch (err: any) {
+      reportEngineError(err, "Lookbook Error");
+    } finally {
+      if (renderAbortRef.current === controller) renderAbortRef.current = null;
+      // Keep whatever was rendered before a failure or cancel as a shorter lookbook
+      if (shots.length) {
+        const lookbook = buildLookbook();
+        setActiveLookbook({ lookbook, shots: [...shots], pending: 0 });
+        setLookbooks(prev => [lookbook, ...prev]);
+        saveLookbook(lookbook).catch(reportStorageError);
+      } else {
+        setActiveLookbook(null);
+      }
+    }
+  };
+
+  const openLookbook = async (lookbook: Lookbook) => {
+    try {
+      const shots = await loadLookbookShots(lookbook.id);
+      setActiveLookbook({ lookbook, shots, pending: 0 });
+      setActiveTab('studio');
+    } catch (err) { reportStorageError(err); }
+  };
+
+  const analyzeReferences = async (images: ImageState[]): Promise<FitProfile | null> => {
+    setStatus({ step: 'profiling', message: `Analyzing ${images.length} reference${images.length === 1 ? '' : 's'}...` });
+    try {
+      const profile = await createFitProfile(images);
+      setStatus({ step: 'completed', message: 'Blueprint Synthesized. Review specs before saving.' });
+      return profile;
+    } catch (err: any) {
+      reportEngineError(err, "Profiling Error");
+      return null;
+    }
+  };
+
+  const saveBlueprint = (blueprint: SavedBlueprint) => {
+    setBlueprints(prev => prev.some(bp => bp.id === blueprint.id)
+      ? prev.map(bp => bp.id === blueprint.id ? blueprint : bp)
+      : [blueprint, ...prev]);
+    setStatus({ step: 'completed', message: `Blueprint "${blueprint.name}" saved.` });
+  };
+
+  const deleteBlueprint = (id: string) => {
+    setBlueprints(prev => prev.filter(bp => bp.id !== id));
+    if (activeBlueprintId === id) setActiveBlueprintId(SIGNATURE_BLUEPRINT.id);
+  };
+
+  const saveBrandProfile = (profile: Omit<BrandRuleProfile, 'version' | 'timestamp'>) => {
+    const version = (brandProfiles.find(p => p.id === profile.id)?.version || 0) + 1;
+    setBrandHistory(prev => [...prev, { ...profile, isBuiltIn: false, version, timestamp: Date.now() }]);
+    setStatus({ step: 'completed', message: `Brand profile "${profile.name}" saved as v${version}.` });
+  };
+
+  const deleteBrandProfile = (id: string) => {
+    setBrandHistory(prev => prev.filter(p => p.id !== id));
+    setProductDb(prev => prev.map(p => p.brandProfileId === id ? { ...p, brandProfileId: undefined } : p));
+    if (activeBrandId === id) setActiveBrandId(SIGNATURE_BRAND_PROFILE.id);
+  };
+
+  const addCustomPose = (pose: SceneOption) => {
+    setCustomPoses(prev => [...prev, pose]);
+  };
+
+  const deleteCustomPose = (name: string) => {
+    setCustomPoses(prev => prev.filter(p => p.name !== name));
+    setLookbookPoses(prev => prev.filter(p => p !== name));
+    if (modelPose === name) setModelPose(BUILT_IN_POSES[0].name);
+  };
+
+  const saveLocationPreset = () => {
+    const name = locationPresetName.trim();
+    if (!name || !manualLocation.trim() || allLocations.some(l => l.name.toLowerCase() === name.toLowerCase())) return;
+    setLocationPresets(prev => [...prev, { name, prompt: manualLocation.trim().replace(/\.+$/, '') }]);
+    setLocationStyle(name);
+    setLocationPresetName('');
+    setStatus({ step: 'completed', message: `Location preset "${name}" saved.` });
+  };
+
+  const deleteLocationPreset = (name: string) => {
+    setLocationPresets(prev => prev.filter(l => l.name !== name));
+    if (locationStyle === name) setLocationStyle(BUILT_IN_LOCATIONS[0].name);
+  };
+
+  const saveCastModel = (model: CastModel) => {
+    setCastModels(prev => prev.some(m => m.id === model.id)
+      ? prev.map(m => m.id === model.id ? model : m)
+      : [model, ...prev]);
+    if (activeCastId === model.id) {
+      setEthnicity(model.ethnicity);
+      setGender(model.gender);
+      setBodyShape(model.bodyShape);
+    }
+    setStatus({ step: 'completed', message: `Cast model "${model.name}" saved.` });
+  };
+
+  const deleteCastModel = (id: string) => {
+    setCastModels(prev => prev.filter(m => m.id !== id));
+    if (activeCastId === id) setActiveCastId('');
+  };
+
+  const activateCastModel = (id: string) => {
+    const model = castModels.find(m => m.id === id);
+    if (!model) return;
+    setActiveCastId(id);
+    setEthnicity(model.ethnicity);
+    setGender(model.gender);
+    setBodyShape(model.bodyShape);
+    setActiveTab('studio');
+  };
+
+  // Stores the anchor image and writes the identity every later render is cast from
+  const anchorCastModel = async (model: CastModel, image: ImageState): Promise<CastModel | null> => {
+    setIsCasting(true);
+    try {
+      const anchorImageId = await savePatternImage(image);
+      setLocalPreviews(prev => ({ ...prev, [anchorImageId]: image.previewUrl }));
+      refreshStorageUsage();
+      setStatus({ step: 'rendering', message: `Describing ${model.name || 'model'}...` });
+      const identity = await describeModelIdentity(`data:${image.mimeType};base64,${image.base64}`);
+      setStatus({ step: 'completed', message: 'Identity anchor set. Save the model to keep it.' });
+      return { ...model, anchorImageId, identity };
+    } catch (err: any) {
+      reportEngineError(err, "Casting Error");
+      return null;
+    } finally {
+      setIsCasting(false);
+    }
+  };
+
+  const generateCastHeadshot = async (model: CastModel): Promise<CastModel | null> => {
+    setIsCasting(true);
+    setStatus({ step: 'rendering', message: 'Rendering casting headshot...' });
+    try {
+      const imageUrl = await synthesizeCastHeadshot(model);
+      const [header, base64] = imageUrl.split(',');
+      const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/png';
+      return await anchorCastModel(model, { base64, mimeType, previewUrl: imageUrl });
+    } catch (err: any) {
+      reportEngineError(err, "Casting Error");
+      setIsCasting(false);
+      return null;
+    }
+  };
+
+  const uploadCastAnchor = async (model: CastModel, file: File): Promise<CastModel | null> => {
+    try {
+      return await anchorCastModel(model, await fileToImageState(file));
+    } catch (err) {
+      reportStorageError(err);
+      return null;
+    }
+  };
+
+  // A cast model's description plus, when it has one, its anchor image
+  const loadCastIdentity = async (castId?: string, casts: CastModel[] = castModels): Promise<ModelIdentity | undefined> => {
+    const cast = casts.find(m => m.id === castId);
+    if (!cast) return undefined;
+    const anchor = cast.anchorImageId ? await loadPatternImage(cast.anchorImageId).catch(() => null) : null;
+    return {
+      description: describeCastModel(cast),
+      anchorImageUrl: anchor ? `data:${anchor.mimeType};base64,${anchor.base64}` : undefined
+    };
+  };
+
+  /**
+   * Snapshots the live Studio settings. The pattern reference is stored alongside
+   * when requested so the recipe can be replayed after a reload.
+   */
+  const captureStudioParams = async (withPattern: boolean): Promise<GenerationParams> => {
+    const profile = activeProfile || SIGNATURE_BLUEPRINT;
+    let patternId: string | undefined;
+    let referenceIds: string[] | undefined;
+    if (withPattern && patternRef?.base64) {
+      patternId = await savePatternImage(patternRef).catch((err) => { console.error("Pattern Storage Error:", err); return undefined; });
+    }
+    if (withPattern && extraReferences.length) {
+      const ids = await Promise.all(extraReferences.map(ref => savePatternImage(ref).catch(() => undefined)));
+      referenceIds = ids.filter((id): id is string => !!id);
+    }
+    return {
+      ethnicity,
+      gender,
+      bodyShape,
+      modelPose,
+      locationStyle,
+      manualLocation: locationStyle === CUSTOM_LOCATION ? manualLocation : undefined,
+      aspectRatio,
+      blueprintId: profile.id,
+      blueprintName: profile.name,
+      patternScale,
+      brightness,
+      patternId,
+      referenceIds,
+      brandProfileId: activeBrand.id,
+      brandProfileVersion: activeBrand.version,
+      castModelId: activeCastId || undefined
+    };
+  };
+
+  const applyGenerationParams = async (params: GenerationParams) => {
+    setEthnicity(params.ethnicity);
+    setGender(params.gender);
+    setBodyShape(params.bodyShape);
+    setModelPose(params.modelPose);
+    setLocationStyle(params.locationStyle);
+    setManualLocation(params.manualLocation || '');
+    setAspectRatio(params.aspectRatio);
+    setPatternScale(params.patternScale);
+    setBrightness(params.brightness);
+    if (allBlueprints.some(bp => bp.id === params.blueprintId)) setActiveBlueprintId(params.blueprintId);
+    if (params.brandProfileId && brandProfiles.some(p => p.id === params.brandProfileId)) setActiveBrandId(params.brandProfileId);
+    setActiveCastId(params.castModelId && castModels.some(m => m.id === params.castModelId) ? params.castModelId : '');
+    if (params.patternId) {
+      const pattern = await loadPatternImage(params.patternId).catch(() => null);
+      if (pattern) setPatternRef(pattern);
+      else setStatus({ step: 'error', message: 'The pattern reference for this recipe is no longer stored. Upload it again.' });
+    }
+    if (params.referenceIds?.length) {
+      const refs = await Promise.all(params.referenceIds.map(id => loadPatternImage(id).catch(() => null)));
+      setExtraReferences(refs.filter((ref): ref is ImageState => !!ref));
+    }
+  };
+
+  // Only approved visions may ship, so an image leaves the manifest once its vision is rejected or deleted
+  const removeVisionsFromExport = (ids: string[]) => {
+    const removed = new Set(ids);
+    // Entries added before vision ids were tracked can still be matched by an image held in memory
+    const removedUrls = new Set([...visions, ...(result ? [result] : [])].filter(v => removed.has(v.id) && v.imageUrl).map(v => v.imageUrl));
+    setExportList(prev => prev.map(entry => {
+      const visionIds = entry.generatedVisionIds || [];
+      const isRemoved = (url: string, i: number) => removed.has(visionIds[i]) || removedUrls.has(url);
+      if (!entry.generatedImageUrls.some(isRemoved)) return entry;
+      const kept = entry.generatedImageUrls.map((url, i) => ({ url, visionId: visionIds[i] || '', gone: isRemoved(url, i) })).filter(img => !img.gone);
+      return { ...entry, generatedImageUrls: kept.map(img => img.url), generatedVisionIds: kept.map(img => img.visionId) };
+    }));
+  };
+
+  const reviewVision = (id: string, patch: Partial<VisionReview>) => {
+    const vision = visions.find(v => v.id === id) || (result?.id === id ? result : undefined);
+    if (!vision) return;
+    const review: VisionReview = { ...vision.review, ...patch, reviewedAt: Date.now() };
+    if (review.verdict !== 'approved') removeVisionsFromExport([id]);
+    setVisions(prev => prev.map(v => v.id === id ? { ...v, review } : v));
+    setResult(prev => prev?.id === id ? { ...prev, review } : prev);
+    updateVision(id, { review }).catch(reportStorageError);
+  };
+
+  // The winner is approved; the other candidates are rejected but keep their ratings and reasons
+  const pickWinner = (winnerId: string) => {
+    selectedVisionIds.forEach(id => reviewVision(id, id === winnerId
+      ? { verdict: 'approved', rejectionReasons: undefined }
+      : { verdict: 'rejected' }));
+    setStatus({ step: 'completed', message: 'Winner approved for export.' });
+  };
+
+  const compareVisions = selectedVisionIds
+    .map(id => visions.find(v => v.id === id))
+    .filter((v): v is GeneratedArtifact => !!v)
+    .map(v => v.imageUrl ? v : { ...v, imageUrl: visionImageUrls[v.id] || '' });
+
+  const openCompare = () => {
+    loadVisionImageUrls(selectedVisionIds);
+    setIsComparing(true);
+  };
+
+  const deleteVisions = async (ids: string[]) => {
+    try {
+      for (const id of ids) await deleteVision(id);
+    } catch (err) {
+      reportStorageError(err);
+      return;
+    }
+    const removed = new Set(ids);
+    const plan = planVisionDeletion(visions, lookbooks, ids, [
+      ...presets.flatMap(p => [p.params.patternId, ...(p.params.referenceIds || [])]),
+      ...castModels.map(m => m.anchorImageId),
+      ...productDb.map(p => p.localImageId)
+    ].filter((id): id is string => !!id));
+    const prune = (list: GeneratedArtifact[]) => list
+      .filter(v => !removed.has(v.id))
+      .map(v => plan.reparented.has(v.id) ? { ...v, parentId: plan.reparented.get(v.id) } : v);
+
+    ids.forEach(id => { if (visionImageUrls[id]) URL.revokeObjectURL(visionImageUrls[id]); });
+    removeVisionsFromExport(ids);
+    setVisions(prune);
+    setLineage(prune);
+    // The Studio must not keep refining a vision that no longer exists
+    if (result && removed.has(result.id)) {
+      setResult(null);
+      setActiveMask(null);
+    }
+    const updatedLookbooks = new Map(plan.updatedLookbooks.map(lb => [lb.id, lb]));
+    setLookbooks(prev => prev.filter(lb => !plan.emptyLookbookIds.includes(lb.id)).map(lb => updatedLookbooks.get(lb.id) || lb));
+    setActiveLookbook(prev => {
+      if (!prev || prev.pending || !prev.shots.some(s => removed.has(s.id))) return prev;
+      const lookbook = updatedLookbooks.get(prev.lookbook.id);
+      return lookbook ? { ...prev, lookbook, shots: prev.shots.filter(s => !removed.has(s.id)) } : null;
+    });
+    Promise.all([
+      ...Array.from(plan.reparented, ([id, parentId]) => updateVision(id, { parentId })),
+      ...plan.updatedLookbooks.map(saveLookbook),
+      ...plan.emptyLookbookIds.map(deleteLookbook),
+      deletePatternImages(plan.orphanedPatternIds)
+    ]).then(refreshStorageUsage).catch(reportStorageError);
+    setVisionImageUrls(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !removed.has(id))));
+    setProductDb(prev => prev.map(p => p.visionIds?.some(id => removed.has(id)) ? { ...p, visionIds: p.visionIds.filter(id => !removed.has(id)) } : p));
+    setSelectedVisionIds(prev => prev.filter(id => !removed.has(id)));
+    refreshStorageUsage();
+    setStatus({ step: 'completed', message: `${ids.length} vision${ids.length === 1 ? '' : 's'} deleted.` });
+  };
+
+  const downloadVisionsZip = async (ids: string[]) => {
+    setIsPackingZip(true);
+    try {
+      const blobs = await loadVisionImages(ids);
+      const entries = [];
+      for (const id of ids) {
+        const vision = visions.find(v => v.id === id);
+        // Renders from this session may still be on their way to storage
+        const blob = blobs.get(id) || (vision?.imageUrl ? await (await fetch(vision.imageUrl)).blob() : undefined);
+        if (!vision || !blob) continue;
+        const extension = blob.type === 'image/jpeg' ? 'jpg' : blob.type.split('/')[1] || 'png';
+        const label = [vision.handleId || 'vision', vision.params?.modelPose].filter(Boolean).join('-').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+        entries.push({ name: `${label}-${id}.${extension}`, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+      if (!entries.length) throw new Error('None of the selected visions have a stored image.');
+      const url = URL.createObjectURL(buildZip(entries));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `zimbabalooba-visions-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setStatus({ step: 'completed', message: `${entries.length} vision${entries.length === 1 ? '' : 's'} packed for download.` });
+    } catch (err) {
+      reportStorageError(err);
+    } finally {
+      setIsPackingZip(false);
+    }
+  };
+
+  const attachVisionsToProduct = (ids: string[], handleId: string) => {
+    const product = productDb.find(p => p.handleId === handleId);
+    if (!product) return;
+    const moved = new Set(ids);
+    setVisions(prev => prev.map(v => moved.has(v.id) ? { ...v, handleId } : v));
+    setProductDb(prev => prev.map(p => {
+      const kept = (p.visionIds || []).filter(id => !moved.has(id));
+      return p.handleId === handleId ? { ...p, visionIds: [...kept, ...ids] } : kept.length === (p.visionIds || []).length ? p : { ...p, visionIds: kept };
+    }));
+    Promise.all(ids.map(id => updateVision(id, { handleId }))).catch(reportStorageError);
+    setStatus({ step: 'completed', message: `${ids.length} vision${ids.length === 1 ? '' : 's'} attached to "${product.name}".` });
+  };
+
+  const recallVision = async (vision: GeneratedArtifact) => {
+    try {
+      const full = await withVisionImage(vision);
+      setResult(full);
+      setStudioHandleId(full.handleId || null);
+      setActiveMask(null);
+      if (full.params) applyGenerationParams(full.params);
+      setActiveTab('studio');
+    } catch (err) { reportStorageError(err); }
+  };
+
+  const savePreset = async (name: string, includePattern: boolean) => {
+    const preset: StudioPreset = { id: Date.now().toString(), name, timestamp: Date.now(), params: await captureStudioParams(includePattern) };
+    setPresets(prev => [preset, ...prev.filter(p => p.name !== name)]);
+    setStatus({ step: 'completed', message: `Preset "${name}" saved.` });
+  };
+
+  const applyPreset = (preset: StudioPreset) => {
+    applyGenerationParams(preset.params);
+    setStatus({ step: 'idle', message: `Preset "${preset.name}" loaded.` });
+  };
+
+  const revertToVersion = (version: GeneratedArtifact) => {
+    setResult(version);
+    if (version.params) applyGenerationParams(version.params);
+    setActiveMask(null);
+    setStatus({ step: 'idle', message: 'Reverted to earlier version.' });
+  };
+
+  const locateAutoMask = async (target: AutoMaskTarget, signal?: AbortSignal): Promise<MaskRegionLayer | null> => {
+    if (!result) return null;
+    try {
+      const { regions, invert } = await locateMaskRegions(result.imageUrl, target, { signal });
+      if (!regions.length) {
+        setStatus({ step: 'error', message: `Auto mask could not find the ${AUTO_MASK_TARGETS[target].label.toLowerCase()} in this vision.` });
+        return null;
       }
-      setStatus({ step: 'error', message: err.message || 'Synthesis Error: Check safety filters or prompt details.' });
+      return { kind: 'region', tool: 'brush', regions, invert };
+    } catch (err: any) {
+      reportEngineError(err, "Auto Mask Error");
+      return null;
     }
   };
 
-  const applyQuickDirective = (directive: string) => {
+  // A hand-painted mask always wins; otherwise the directive's target is masked first
+  const applyQuickDirective = async (directive: string, maskTarget?: AutoMaskTarget) => {
     setRefinementPrompt(directive);
-    startProduction(directive);
+    if (!result || !maskTarget || !autoMaskQuickEdits || activeMask) {
+      startProduction(directive);
+      return;
+    }
+    setStatus({ step: 'rendering', message: `Masking ${AUTO_MASK_TARGETS[maskTarget].label}...` });
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    try {
+      const layer = await locateAutoMask(maskTarget, controller.signal);
+      if (!layer) return;
+      const { width, height } = await loadImageSize(result.imageUrl);
+      startProduction(directive, exportMask([layer], width, height, DEFAULT_MASK_FEATHER) || undefined);
+    } catch (err: any) {
+      setStatus({ step: 'error', message: err.message });
+    } finally {
+      // startProduction has installed its own controller by now
+      if (renderAbortRef.current === controller) renderAbortRef.current = null;
+    }
   };
 
   const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -190,39 +1032,389 @@ const App: React.FC = () => {
     if (file) {
       const reader = new FileReader();
       reader.onload = (event) => {
-        const text = event.target?.result as string;
+        const text = decodeImportBytes(event.target?.result as ArrayBuffer);
+        const adapter = pickImportAdapter(text);
+        // Delimited files go through column mapping; structured formats name their fields
+        if (adapter.id === 'delimited') {
+          setPendingMapping({ fileName: file.name, text });
+          return;
+        }
         try {
-          const products = parseProductCSV(text);
-          setProductDb(products);
-          setStatus({ step: 'completed', message: `${products.length} items synced.` });
-        } catch (err) {
-          setStatus({ step: 'error', message: 'CSV Format Error.' });
+          ingestProducts(file.name, adapter.parse(text));
+        } catch (err: any) {
+          setStatus({ step: 'error', message: `${adapter.label} Format Error: ${err?.message || 'Could not read the file.'}` });
         }
       };
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
+    }
+    // Allow picking the same file again for the next re-import
+    e.target.value = '';
+  };
+
+  const confirmColumnMapping = (delimiter: CsvDelimiter, mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    const { fileName, text } = pendingMapping;
+    setPendingMapping(null);
+    try {
+      ingestProducts(fileName, parseProductCSV(text, { delimiter, mapping }));
+    } catch (err) {
+      setStatus({ step: 'error', message: 'CSV Format Error.' });
+    }
+  };
+
+  const ingestProducts = (fileName: string, products: Product[]) => {
+    if (!products.length) {
+      setStatus({ step: 'error', message: `No products with a name and image were found in ${fileName}.` });
+    } else if (!productDb.length) {
+      setProductDb(products);
+      setStatus({ step: 'completed', message: `${products.length} items synced.` });
+      checkProductImages(products);
+    } else {
+      setPendingImport({ fileName, items: planProductMerge(productDb, products) });
     }
   };
 
+  const saveMappingProfile = (name: string, delimiter: CsvDelimiter, mapping: ColumnMapping) => {
+    const profile: ImportMappingProfile = { id: Date.now().toString(), name, timestamp: Date.now(), delimiter, mapping };
+    setMappingProfiles(prev => [profile, ...prev.filter(p => p.name !== name)]);
+    setStatus({ step: 'completed', message: `Mapping profile "${name}" saved.` });
+  };
+
+  const applyImport = (choices: MergeChoices, removeMissing: boolean) => {
+    if (!pendingImport) return;
+    const merged = applyProductMerge(pendingImport.items, choices, removeMissing);
+    const byHandle = new Map(merged.map(p => [p.handleId, p]));
+    setProductDb(merged);
+    setExportList(prev => prev.map(e => {
+      const product = byHandle.get(e.handleId);
+      return product ? { ...product, generatedImageUrls: e.generatedImageUrls, generatedVisionIds: e.generatedVisionIds } : e;
+    }));
+    const added = pendingImport.items.filter(i => i.kind === 'new').length;
+    const changed = pendingImport.items.filter(i => i.kind === 'changed').length;
+    setPendingImport(null);
+    setStatus({ step: 'completed', message: `Import merged: ${added} new, ${changed} updated.` });
+    // Products whose images changed lost their probe results in the merge
+    checkProductImages(merged.filter(p => !p.imageCheck));
+  };
+
+  /**
+   * Probes product images in the background and records the results on each
+   * product, so unreachable and CORS-blocked images show up before a render fails.
+   */
+  const checkProductImages = async (products: Product[]) => {
+    if (!products.length || imageCheckProgress) return;
+    let done = 0;
+    let blocked = 0;
+    let broken = 0;
+    setImageCheckProgress({ done, total: products.length });
+    // Every productDb change rewrites the whole store, so results are applied in chunks
+    const pending = new Map<string, NonNullable<Product['imageCheck']>>();
+    const applyPending = () => {
+      if (!pending.size) return;
+      const checks = new Map(pending);
+      pending.clear();
+      setProductDb(prev => prev.map(p => checks.has(p.handleId) ? { ...p, imageCheck: checks.get(p.handleId) } : p));
+    };
+    await probeInventoryImages(products, (handleId, check) => {
+      done++;
+      if (check.image.status === 'cors_blocked') blocked++;
+      if (check.image.status === 'broken' || check.image.status === 'missing' || check.thumbnail?.status === 'broken') broken++;
+      pending.set(handleId, check);
+      if (pending.size >= IMAGE_CHECK_CHUNK_SIZE) applyPending();
+      setImageCheckProgress({ done, total: products.length });
+    });
+    applyPending();
+    setImageCheckProgress(null);
+    setStatus(broken || blocked
+      ? { step: 'error', message: `Image check: ${broken} broken, ${blocked} need a manual upload. Use the inventory filters to find them.` }
+      : { step: 'completed', message: `Image check: all ${products.length} product images are reachable.` });
+  };
+
+  /**
+   * Matches picked files to products by file name (handle, SKU or the original
+   * image's file name) and stores them as the products' local images.
+   */
+  const relinkLocalFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (!files.length) return;
+    const linked = new Map<string, string>();
+    const unmatched: string[] = [];
+    for (const file of files) {
+      const product = matchFileToProduct(file.name, productDb);
+      if (!product) { unmatched.push(file.name); continue; }
+      try {
+        const image = await fileToImageState(file);
+        const id = await savePatternImage(image);
+        linked.set(product.handleId, id);
+        setLocalPreviews(prev => ({ ...prev, [id]: image.previewUrl }));
+      } catch (err) {
+        reportStorageError(err);
+        return;
+      }
+    }
+    setProductDb(prev => prev.map(p => linked.has(p.handleId) ? { ...p, localImageId: linked.get(p.handleId) } : p));
+    refreshStorageUsage();
+    setStatus(unmatched.length
+      ? { step: 'error', message: `${linked.size} relinked. No product matched: ${unmatched.slice(0, 5).join(', ')}${unmatched.length > 5 ? ` and ${unmatched.length - 5} more` : ''}.` }
+      : { step: 'completed', message: `${linked.size} product image${linked.size === 1 ? '' : 's'} relinked.` });
+  };
+
+  // Prefers a relinked local file over the product's remote image
+  const loadProductImage = async (product: Product): Promise<ImageState> => {
+    if (product.localImageId) {
+      const local = await loadPatternImage(product.localImageId).catch(() => null);
+      if (local) return local;
+    }
+    return fetchImageAsState(product.imageUrl);
+  };
+
   const applyPatternFromDb = async (product: Product) => {
     setStatus({ step: 'rendering', message: 'Syncing Asset...' });
+    setStudioGallery(product.galleryUrls?.length ? product.galleryUrls : [product.imageUrl]);
+    setExtraReferences([]);
+    setActiveBrandId(resolveBrandProfile(product, brandHistory, activeBrandId).id);
     try {
-      const response = await fetch(product.imageUrl, { mode: 'cors' });
-      const blob = await response.blob();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPatternRef({ base64: (reader.result as string).split(',')[1], mimeType: blob.type, previewUrl: product.imageUrl });
-        setActiveTab('studio');
-        setStatus({ step: 'idle', message: 'Asset Ready.' });
-      };
-      reader.readAsDataURL(blob);
+      setPatternRef(await loadProductImage(product));
+      setStudioHandleId(product.handleId);
+      setActiveTab('studio');
+      setStatus({ step: 'idle', message: 'Asset Ready.' });
     } catch (err) {
-      setPatternRef({ base64: '', mimeType: 'image/jpeg', previewUrl: product.imageUrl });
+      // An empty pattern would fail later at render time, so leave the uploader open instead
+      setPatternRef(null);
+      setStudioHandleId(product.handleId);
       setActiveTab('studio');
-      setStatus({ step: 'error', message: 'Manual upload required for this asset.' });
+      setStatus({ step: 'error', message: 'This image could not be downloaded (CORS or a dead link). Upload it here, or relink a local file from Inventory.' });
+    }
+  };
+
+  const toggleReference = async (url: string) => {
+    if (extraReferences.some(ref => ref.previewUrl === url)) {
+      setExtraReferences(prev => prev.filter(ref => ref.previewUrl !== url));
+      return;
+    }
+    setLoadingReferenceUrl(url);
+    try {
+      const reference = await fetchImageAsState(url);
+      setExtraReferences(prev => [...prev, reference]);
+    } catch (err) {
+      setStatus({ step: 'error', message: 'This image could not be fetched (CORS or a dead link). Upload it manually instead.' });
+    } finally {
+      setLoadingReferenceUrl(null);
+    }
+  };
+
+  const captureBatchStudio = (): BatchStudioSettings => ({
+    ethnicity,
+    gender,
+    patternScale,
+    brightness,
+    blueprintId: activeBlueprintId,
+    brandProfileId: activeBrandId,
+    brandQaEnabled,
+    autoFixQaFailures
+  });
+
+  const toggleProductSelection = (handleId: string) => {
+    setSelectedHandles(prev => prev.includes(handleId) ? prev.filter(h => h !== handleId) : [...prev, handleId]);
+  };
+
+  /**
+   * Renders one batch job. Everything it reads comes from the run captured by
+   * startBatch, so Studio changes made while the batch runs do not leak into it.
+   */
+  const renderBatchJob = (run: BatchRun) => async (job: BatchJob, report: (status: GenerationStatus) => void, signal: AbortSignal) => {
+    const { studio } = run.settings;
+    report({ step: 'production', message: 'Fetching product image...' });
+    const product = run.products.find(p => p.handleId === job.handleId);
+    const blueprint = run.blueprints.find(bp => bp.id === product?.blueprintId)
+      || run.blueprints.find(bp => bp.id === studio.blueprintId)
+      || SIGNATURE_BLUEPRINT;
+    const reference = product ? await loadProductImage(product) : await fetchImageAsState(job.imageUrl);
+    const brand = resolveBrandProfile(product, run.brandHistory, studio.brandProfileId);
+    // Cast jobs take the model's attributes; the rest use the Studio's
+    const cast = run.castModels.find(m => m.id === job.castModelId);
+    const castIdentity = await loadCastIdentity(job.castModelId, run.castModels);
+    const jobEthnicity = cast?.ethnicity || studio.ethnicity;
+    const jobGender = cast?.gender || studio.gender;
+
+    const patternId = await savePatternImage(reference).catch(() => undefined);
+
+    report({ step: 'rendering', message: 'Synthesizing...' });
+    const prompt = await generateFashionPrompt(
+      blueprint,
+      [reference],
+      jobEthnicity,
+      jobGender,
+      job.bodyShape,
+      studio.patternScale,
+      studio.brightness,
+      resolveSceneOption(run.locations, job.locationStyle),
+      resolveSceneOption(run.poses, job.modelPose),
+      { brand, identity: castIdentity, signal }
+    );
+    const imageUrl = await synthesizeFashionImage(prompt, job.aspectRatio, { referenceImages: [reference], identityImage: castIdentity?.anchorImageUrl, signal });
+    if (!imageUrl) throw new Error("Synthesis failed: Empty image result.");
+
+    if (studio.brandQaEnabled) report({ step: 'rendering', message: 'Checking brand guardrails...' });
+    const qa = await runBrandQa(imageUrl, brand, signal, blueprint, studio.brandQaEnabled);
+
+    const id = `${Date.now()}-${job.id}`;
+    const artifact: GeneratedArtifact = {
+      id,
+      timestamp: Date.now(),
+      generatedPrompt: prompt,
+      imageUrl,
+      handleId: job.handleId,
+      rootId: id,
+      params: {
+        ethnicity: jobEthnicity,
+        gender: jobGender,
+        bodyShape: job.bodyShape,
+        modelPose: job.modelPose,
+        locationStyle: job.locationStyle,
+        aspectRatio: job.aspectRatio,
+        blueprintId: blueprint.id,
+        blueprintName: blueprint.name,
+        patternScale: studio.patternScale,
+        brightness: studio.brightness,
+        patternId,
+        brandProfileId: brand.id,
+        brandProfileVersion: brand.version,
+        castModelId: cast?.id
+      },
+      qa
+    };
+    recordVision(artifact);
+    setProductDb(prev => prev.map(p => p.handleId === job.handleId ? { ...p, visionIds: [...(p.visionIds || []), artifact.id] } : p));
+
+    const fix = qa && !qa.passed && studio.autoFixQaFailures ? buildQaFixDirective(qa, blueprint, brand) : '';
+    if (!fix) return;
+    report({ step: 'rendering', message: 'Brand QA failed. Applying automatic fix...' });
+    const directive = `Auto QA fix: ${fix}`;
+    const fixPrompt = await generateFashionPrompt(
+      blueprint,
+      [reference],
+      jobEthnicity,
+      jobGender,
+      job.bodyShape,
+      studio.patternScale,
+      studio.brightness,
+      resolveSceneOption(run.locations, job.locationStyle),
+      resolveSceneOption(run.poses, job.modelPose),
+      { refinementInstruction: directive, brand, signal }
+    );
+    const fixedUrl = await synthesizeFashionImage(fixPrompt, job.aspectRatio, { sourceImage: imageUrl, referenceImages: [reference], signal });
+    if (!fixedUrl) throw new Error("Synthesis failed: Empty image result.");
+    const fixed: GeneratedArtifact = {
+      ...artifact,
+      id: `${Date.now()}-${job.id}-fix`,
+      timestamp: Date.now(),
+      generatedPrompt: fixPrompt,
+      imageUrl: fixedUrl,
+      parentId: id,
+      directive,
+      qa: await runBrandQa(fixedUrl, brand, signal, blueprint, studio.brandQaEnabled)
+    };
+    recordVision(fixed);
+    setProductDb(prev => prev.map(p => p.handleId === job.handleId ? { ...p, visionIds: [...(p.visionIds || []), fixed.id] } : p));
+  };
+
+  const startBatch = (matrix: BatchRenderSettings, concurrency: number) => {
+    const products = productDb.filter(p => selectedHandles.includes(p.handleId));
+    const state = batchQueueRef.current?.getState();
+    if (state === 'running' || state === 'paused') {
+      setStatus({ step: 'error', message: 'A batch is already running. Cancel it or let it finish first.' });
+      return;
+    }
+    const settings: BatchRenderSettings = { ...matrix, studio: captureBatchStudio() };
+    const jobs = expandBatchMatrix(products, settings, castModels);
+    if (!jobs.length) return;
+    setBatchJobs(jobs);
+    const run: BatchRun = { settings, products, castModels, blueprints: allBlueprints, brandHistory, locations: allLocations, poses: allPoses };
+    batchQueueRef.current = createBatchQueue(jobs, renderBatchJob(run), {
+      concurrency,
+      onJobStatus: (jobId, jobStatus) => setBatchJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: jobStatus } : j)),
+      onStateChange: setBatchState
+    });
+  };
+
+  const dismissBatch = () => {
+    batchQueueRef.current?.cancel();
+    batchQueueRef.current = null;
+    setBatchJobs([]);
+    setBatchState(null);
+    setSelectedHandles([]);
+  };
+
+  const addProductToExport = (product: Product) => {
+    if (exportList.some(e => e.handleId === product.handleId)) {
+      setStatus({ step: 'completed', message: `"${product.name}" is already in the export manifest.` });
+      return;
+    }
+    setExportList(prev => [...prev, { ...product, generatedImageUrls: [] }]);
+    setStatus({ step: 'completed', message: `"${product.name}" added to export.` });
+  };
+
+  const addVisionToExport = async (record: GeneratedArtifact) => {
+    if (record.review?.verdict !== 'approved') {
+      setStatus({ step: 'error', message: 'Only approved visions can be exported. Approve it in Visions first.' });
+      return;
+    }
+    const product = productDb.find(p => p.handleId === record.handleId);
+    if (!product) {
+      setStatus({ step: 'error', message: 'This vision is not linked to an inventory product.' });
+      return;
+    }
+    let vision: GeneratedArtifact;
+    try {
+      vision = await withVisionImage(record);
+    } catch (err) {
+      reportStorageError(err);
+      return;
+    }
+    setExportList(prev => {
+      const existing = prev.find(e => e.handleId === product.handleId);
+      if (!existing) return [...prev, { ...product, generatedImageUrls: [vision.imageUrl], generatedVisionIds: [vision.id] }];
+      if (existing.generatedImageUrls.includes(vision.imageUrl) || existing.generatedVisionIds?.includes(vision.id)) return prev;
+      return prev.map(e => e.handleId === product.handleId ? {
+        ...e,
+        generatedImageUrls: [...e.generatedImageUrls, vision.imageUrl],
+        generatedVisionIds: [...e.generatedImageUrls.map((_, i) => e.generatedVisionIds?.[i] || ''), vision.id]
+      } : e);
+    });
+    setStatus({ step: 'completed', message: `Vision added to "${product.name}" export.` });
+  };
+
+  const saveProductEdits = (product: Product) => {
+    setProductDb(prev => prev.map(p => p.handleId === product.handleId ? product : p));
+    setExportList(prev => prev.map(e => e.handleId === product.handleId ? { ...product, generatedImageUrls: e.generatedImageUrls, generatedVisionIds: e.generatedVisionIds } : e));
+    setEditingProduct(null);
+    setStatus({ step: 'completed', message: `"${product.name}" updated.` });
+  };
+
+  const generateProductDescription = async (product: Product, blueprintId: string, tone: CopyTone): Promise<string | null> => {
+    const blueprint = allBlueprints.find(bp => bp.id === blueprintId);
+    try {
+      return await generateDescription(product, { profile: blueprint, brand: resolveBrandProfile(product, brandHistory, activeBrandId), tone });
+    } catch (err: any) {
+      reportEngineError(err, "Copy Error");
+      return null;
     }
   };
 
-  if (isKeySelected === false) {
+  const downloadExport = () => {
+    const platform = exportPlatform || inferExportPlatform(exportList);
+    const csv = buildExportCSV(exportList, platform);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `zimbabalooba-${platform}-export-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isKeySelected === false && engineConfig.provider !== 'mock') {
     return (
       <div className="min-h-screen bg-black flex flex-col items-center justify-center p-12 text-center">
         <h1 className="fashion-title text-6xl font-bold mb-8 text-white tracking-tighter">Zimbabalooba</h1>
@@ -257,12 +1449,18 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen pb-20 px-4 md:px-12 max-w-7xl mx-auto">
-      <header className="py-16 text-center animate-in">
+      <header className="py-16 text-center animate-in relative">
+        <button
+          onClick={() => setIsEngineSettingsOpen(true)}
+          className={`absolute top-6 right-0 px-4 py-2 rounded-xl border text-[8px] font-bold uppercase tracking-widest transition-all ${engineConfig.provider === 'mock' ? 'bg-orange-500/10 border-orange-500/30 text-orange-400' : 'bg-white/5 border-white/10 text-white/30 hover:text-white'}`}
+        >
+          Engine: {engineConfig.provider === 'mock' ? 'Offline Mock' : 'Gemini'}
+        </button>
         <h1 className="fashion-title text-6xl md:text-8xl font-bold mb-6 text-white tracking-tighter">Zimbabalooba</h1>
         <nav className="flex justify-center flex-wrap gap-x-12 gap-y-6 mt-12 border-b border-white/5 pb-6">
-          {['studio', 'visions', 'inventory', 'export'].map(id => (
+          {['studio', 'blueprints', 'brand', 'casting', 'visions', 'inventory', 'export'].map(id => (
             <button key={id} onClick={() => setActiveTab(id as any)} className={`text-[10px] font-bold uppercase tracking-[0.25em] transition-all pb-2 relative ${activeTab === id ? 'text-orange-400' : 'text-white/30 hover:text-white'}`}>
-              {id === 'studio' ? 'Studio' : id === 'visions' ? 'Visions' : id === 'inventory' ? 'Inventory' : 'Export List'}
+              {id === 'studio' ? 'Studio' : id === 'blueprints' ? 'Blueprint Lab' : id === 'brand' ? 'Brand Rules' : id === 'casting' ? 'Casting' : id === 'visions' ? 'Visions' : id === 'inventory' ? 'Inventory' : 'Export List'}
               {activeTab === id && <div className="absolute bottom-0 left-0 w-full h-px bg-orange-400"></div>}
             </button>
           ))}
@@ -275,17 +1473,43 @@ const App: React.FC = () => {
             {/* Controls Sidebar */}
             <div className="lg:col-span-4 space-y-6">
               <div className="glass-card p-8 rounded-[40px] space-y-8 sticky top-8">
-                <ImageUploader label="Fit Reference Architecture" description="Upload product or reference photo" selectedImage={patternRef} onImageSelect={setPatternRef} />
+                <ImageUploader label="Fit Reference Architecture" description="Upload product or reference photo" selectedImage={patternRef} onImageSelect={(img) => { setPatternRef(img); setStudioHandleId(null); setStudioGallery([]); setExtraReferences([]); }} />
+
+                <ReferencePicker
+                  imageUrls={Array.from(new Set([...studioGallery, ...extraReferences.map(ref => ref.previewUrl)]))}
+                  primaryUrl={patternRef?.previewUrl}
+                  selectedUrls={extraReferences.map(ref => ref.previewUrl)}
+                  loadingUrl={loadingReferenceUrl}
+                  onToggle={toggleReference}
+                />
                 
                 {patternRef && !result && (
                   <div className="bg-orange-500/5 border border-orange-500/20 p-4 rounded-2xl animate-in">
                     <div className="flex items-center gap-3">
                       <div className="w-2 h-2 bg-orange-500 rounded-full animate-pulse"></div>
-                      <span className="text-[9px] font-bold uppercase tracking-widest text-orange-400">Blueprint Active: Architectural Signature</span>
+                      <span className="text-[9px] font-bold uppercase tracking-widest text-orange-400">Blueprint Active: {activeProfile?.name}</span>
                     </div>
                   </div>
                 )}
 
+                {!result && (
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Fit Blueprint</label>
+                    <select value={activeBlueprintId} onChange={(e) => setActiveBlueprintId(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                      {allBlueprints.map(bp => <option key={bp.id} value={bp.id}>{bp.name}</option>)}
+                    </select>
+                  </div>
+                )}
+
+                {!result && (
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Brand Rules</label>
+                    <select value={activeBrand.id} onChange={(e) => setActiveBrandId(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                      {brandProfiles.map(p => <option key={p.id} value={p.id}>{p.name} (v{p.version})</option>)}
+                    </select>
+                  </div>
+                )}
+
                 {result && (
                   <div className="space-y-6 pt-6 border-t border-indigo-500/20 bg-indigo-500/5 p-6 rounded-[32px] animate-in shadow-inner border">
                     <div className="flex flex-col space-y-1">
@@ -303,12 +1527,46 @@ const App: React.FC = () => {
                     <div className="space-y-3">
                       <label className="text-[8px] font-bold uppercase tracking-widest text-white/30 block">Quick Edit Actions</label>
                       <div className="flex flex-wrap gap-2">
-                         <button onClick={() => applyQuickDirective("Sharpen the brand logos. Ensure the hem markers are clearly visible and precisely placed.")} className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Fix Logos</button>
-                         <button onClick={() => applyQuickDirective("Make the color significantly lighter and more vibrant, boost saturation.")} className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Vibrancy+</button>
-                         <button onClick={() => applyQuickDirective("Change the shoes to high-end minimalist fashion sneakers.")} className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">New Shoes</button>
+                         {QUICK_DIRECTIVES.map(q => (
+                           <button key={q.label} onClick={() => applyQuickDirective(q.directive, q.maskTarget)} className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">{q.label}</button>
+                         ))}
                       </div>
+                      <label className="flex items-center gap-2 text-[8px] font-bold uppercase tracking-widest text-white/30 cursor-pointer">
+                        <input type="checkbox" checked={autoMaskQuickEdits} onChange={(e) => setAutoMaskQuickEdits(e.target.checked)} className="accent-indigo-500" />
+                        Auto-mask the target area first
+                      </label>
                     </div>
 
+                    {result.qa && (
+                      <div className="space-y-3">
+                        <div className="flex justify-between items-center">
+                          <label className="text-[8px] font-bold uppercase tracking-widest text-white/30">Brand QA</label>
+                          <span className={`text-[8px] font-bold uppercase tracking-widest ${result.qa.passed ? 'text-emerald-400' : 'text-red-400'}`}>{result.qa.passed ? 'Passed' : 'Failed'}</span>
+                        </div>
+                        <div className="space-y-1.5">
+                          {result.qa.checks.map(check => (
+                            <div key={check.ruleId} className="flex items-start gap-2 text-[9px]" title={check.note}>
+                              <span className={`font-bold ${check.passed ? 'text-emerald-400' : 'text-red-400'}`}>{check.passed ? '✓' : '✗'}</span>
+                              <span className="flex flex-col">
+                                <span className={check.passed ? 'text-white/50' : 'text-white/80'}>{check.label}</span>
+                                {!check.passed && check.note && <span className="text-white/30">{check.note}</span>}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                        {!result.qa.passed && activeProfile && (
+                          <button onClick={() => startProduction(`Auto QA fix: ${buildQaFixDirective(result.qa!, activeProfile, activeBrand)}`)} disabled={status.step === 'rendering'} className="w-full py-2 bg-red-500/10 border border-red-500/30 rounded-xl text-[8px] font-bold uppercase tracking-widest text-red-300 hover:bg-red-500/20 disabled:opacity-50 transition-all">Fix Failed Rules</button>
+                        )}
+                      </div>
+                    )}
+
+                    {result.generatedPrompt && (
+                      <details className="group/recipe">
+                        <summary className="text-[8px] font-bold uppercase tracking-widest text-white/30 cursor-pointer hover:text-white transition-colors">Recipe Prompt{result.params ? ` // ${result.params.blueprintName}` : ''}</summary>
+                        <p className="mt-3 max-h-40 overflow-y-auto text-[10px] text-white/50 leading-relaxed whitespace-pre-wrap">{result.generatedPrompt.trim()}</p>
+                      </details>
+                    )}
+
                     <div className="grid grid-cols-2 gap-3">
                       <button 
                         onClick={() => startProduction()} 
@@ -330,16 +1588,25 @@ const App: React.FC = () => {
                 {!result && (
                   <>
                     <div className="space-y-6 pt-6 border-t border-white/5">
+                      {castModels.length > 0 && (
+                        <div>
+                          <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Cast Model</label>
+                          <select value={activeCastId} onChange={(e) => e.target.value ? activateCastModel(e.target.value) : setActiveCastId('')} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                            <option value="">Ad Hoc (No Cast)</option>
+                            {castModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                          </select>
+                        </div>
+                      )}
                       <div className="grid grid-cols-2 gap-4">
                         <div>
                           <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Race</label>
-                          <select value={ethnicity} onChange={(e) => setEthnicity(e.target.value as Ethnicity)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                          <select value={ethnicity} onChange={(e) => { setEthnicity(e.target.value as Ethnicity); setActiveCastId(''); }} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
                             {Object.values(Ethnicity).map(e => <option key={e} value={e}>{e}</option>)}
                           </select>
                         </div>
                         <div>
                           <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Gender</label>
-                          <select value={gender} onChange={(e) => setGender(e.target.value as Gender)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                          <select value={gender} onChange={(e) => { setGender(e.target.value as Gender); setActiveCastId(''); }} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
                             {["Male", "Female", "Unisex"].map(g => <option key={g} value={g}>{g}</option>)}
                           </select>
                         </div>
@@ -349,10 +1616,10 @@ const App: React.FC = () => {
                     <div className="space-y-4 pt-4">
                       <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Body Archetype</label>
                       <div className="grid grid-cols-3 gap-2">
-                        {["Slim", "Athletic", "Curvy", "Muscular"].map(shape => (
+                        {BODY_SHAPES.map(shape => (
                           <button 
                             key={shape}
-                            onClick={() => setBodyShape(shape as BodyShape)}
+                            onClick={() => { setBodyShape(shape); setActiveCastId(''); }}
                             className={`py-3 rounded-xl text-[8px] font-bold uppercase tracking-widest transition-all border ${bodyShape === shape ? 'bg-white/90 border-white/20 text-black' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'}`}
                           >
                             {shape}
@@ -364,46 +1631,121 @@ const App: React.FC = () => {
                     <div className="space-y-4 pt-4 border-t border-white/5">
                       <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Environment Type</label>
                       <div className="grid grid-cols-2 gap-2">
-                        {["Shop Display", "Everyday", "Outdoor", "Urban"].map(style => (
-                          <button 
-                            key={style}
-                            onClick={() => setLocationStyle(style as PoseStyle)}
-                            className={`py-3 rounded-xl text-[8px] font-bold uppercase tracking-widest transition-all border flex flex-col items-center justify-center gap-1 ${locationStyle === style ? 'bg-orange-500 border-orange-400 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'}`}
-                          >
-                            <span>{style}</span>
-                          </button>
+                        {allLocations.map(location => (
+                          <div key={location.name} className="relative">
+                            <button 
+                              onClick={() => setLocationStyle(location.name)}
+                              title={location.isBuiltIn ? undefined : location.prompt}
+                              className={`w-full py-3 rounded-xl text-[8px] font-bold uppercase tracking-widest transition-all border flex flex-col items-center justify-center gap-1 ${locationStyle === location.name ? 'bg-orange-500 border-orange-400 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'}`}
+                            >
+                              <span>{location.name}</span>
+                            </button>
+                            {!location.isBuiltIn && (
+                              <button onClick={() => deleteLocationPreset(location.name)} title="Delete preset" className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-white/30 hover:text-red-400 transition-colors">×</button>
+                            )}
+                          </div>
                         ))}
                       </div>
+                      {locationStyle === CUSTOM_LOCATION && (
+                        <div className="space-y-2">
+                          <textarea
+                            placeholder="Describe the setting, e.g. a rooftop terrace at dusk with string lights"
+                            value={manualLocation}
+                            onChange={(e) => setManualLocation(e.target.value)}
+                            rows={2}
+                            className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-orange-500/30 resize-none"
+                          />
+                          <div className="flex gap-2">
+                            <input
+                              placeholder="Preset name"
+                              value={locationPresetName}
+                              onChange={(e) => setLocationPresetName(e.target.value)}
+                              className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-orange-500/30"
+                            />
+                            <button onClick={saveLocationPreset} disabled={!locationPresetName.trim() || !manualLocation.trim()} className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-50 transition-all">Save as Preset</button>
+                          </div>
+                        </div>
+                      )}
                     </div>
 
-                    <div className="space-y-4 pt-4 border-t border-white/5">
-                      <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Model Pose</label>
-                      <div className="flex flex-wrap gap-2">
-                        {[
-                          { id: 'Relaxed Standing', label: 'Standing' },
-                          { id: 'Walking Motion', label: 'Walking' },
-                          { id: 'Side Profile', label: 'Profile' }
-                        ].map(pose => (
-                          <button 
-                            key={pose.id}
-                            onClick={() => setModelPose(pose.id as ModelPose)}
-                            className={`px-4 py-2 rounded-full text-[8px] font-bold uppercase tracking-widest transition-all border ${modelPose === pose.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'}`}
-                          >
-                            {pose.label}
-                          </button>
-                        ))}
+                    <div className="pt-4 border-t border-white/5">
+                      <SceneOptionPicker
+                        label="Model Pose"
+                        options={allPoses}
+                        value={modelPose}
+                        onSelect={setModelPose}
+                        onAdd={addCustomPose}
+                        onDelete={deleteCustomPose}
+                        addPlaceholder="Describe the pose, e.g. The model leans against a wall, one foot crossed over the other"
+                      />
+                    </div>
+
+                    <div className="space-y-5 pt-4 border-t border-white/5">
+                      <div>
+                        <div className="flex justify-between items-center mb-2">
+                          <label className="text-[9px] font-bold uppercase tracking-widest text-white/40">Pattern Scale</label>
+                          <span className="text-[9px] font-mono text-orange-400">×{patternScale.toFixed(2)}</span>
+                        </div>
+                        <input type="range" min={0.5} max={2} step={0.05} value={patternScale} onChange={(e) => setPatternScale(parseFloat(e.target.value))} className="w-full accent-orange-500" />
                       </div>
+                      <div>
+                        <div className="flex justify-between items-center mb-2">
+                          <label className="text-[9px] font-bold uppercase tracking-widest text-white/40">Color Brightness</label>
+                          <span className="text-[9px] font-mono text-orange-400">{brightness > 0 ? '+' : ''}{brightness}%</span>
+                        </div>
+                        <input type="range" min={-50} max={50} step={5} value={brightness} onChange={(e) => setBrightness(parseInt(e.target.value, 10))} className="w-full accent-orange-500" />
+                      </div>
+                      {(patternScale !== 1 || brightness !== 0) && (
+                        <button onClick={() => { setPatternScale(1.0); setBrightness(0); }} className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Reset to Reference</button>
+                      )}
+                    </div>
+
+                    <div className="space-y-2 pt-4 border-t border-white/5">
+                      <label className="flex items-center gap-2 text-[8px] font-bold uppercase tracking-widest text-white/30 cursor-pointer">
+                        <input type="checkbox" checked={brandQaEnabled} onChange={(e) => setBrandQaEnabled(e.target.checked)} className="accent-orange-500" />
+                        Brand QA after each render
+                      </label>
+                      <label className={`flex items-center gap-2 text-[8px] font-bold uppercase tracking-widest text-white/30 cursor-pointer ${brandQaEnabled ? '' : 'opacity-40'}`}>
+                        <input type="checkbox" checked={autoFixQaFailures} disabled={!brandQaEnabled} onChange={(e) => setAutoFixQaFailures(e.target.checked)} className="accent-orange-500" />
+                        Auto-fix one failed QA pass
+                      </label>
                     </div>
 
                     <button onClick={() => startProduction()} disabled={!patternRef || status.step === 'rendering'} className="w-full py-6 rounded-3xl bg-orange-600 text-white font-bold text-xs uppercase tracking-[0.3em] shadow-2xl disabled:opacity-50 hover:bg-orange-500 transition-all transform active:scale-[0.98]">
                       Synthesize Vision
                     </button>
+
+                    <div className="space-y-3 pt-4 border-t border-white/5">
+                      <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Lookbook Shots</label>
+                      <div className="flex flex-wrap gap-2">
+                        {allPoses.map(({ name: pose }) => (
+                          <button
+                            key={pose}
+                            onClick={() => setLookbookPoses(prev => prev.includes(pose) ? prev.filter(p => p !== pose) : [...prev, pose])}
+                            className={`px-3 py-1.5 rounded-full text-[8px] font-bold uppercase tracking-widest transition-all border ${lookbookPoses.includes(pose) ? 'bg-orange-500/20 border-orange-500/40 text-orange-200' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}
+                          >
+                            {pose}
+                          </button>
+                        ))}
+                      </div>
+                      <button onClick={startLookbook} disabled={!patternRef || !lookbookPoses.length || status.step === 'rendering'} className="w-full py-4 rounded-2xl bg-white/5 border border-orange-500/30 text-orange-300 font-bold text-[10px] uppercase tracking-[0.2em] hover:bg-orange-500/10 disabled:opacity-50 transition-all">
+                        Render Lookbook ({lookbookPoses.length} shots, one model)
+                      </button>
+                    </div>
                   </>
                 )}
+
+                <PresetPanel
+                  presets={presets}
+                  hasPattern={!!patternRef?.base64}
+                  onApply={applyPreset}
+                  onSave={savePreset}
+                  onDelete={(id) => setPresets(prev => prev.filter(p => p.id !== id))}
+                />
               </div>
             </div>
             
-            <div className="lg:col-span-8">
+            <div className="lg:col-span-8 space-y-6">
               <div className="glass-card rounded-[40px] h-[800px] flex flex-col overflow-hidden bg-black/40 relative group">
                 <div className="p-8 border-b border-white/5 flex justify-between items-center bg-black/20 backdrop-blur-md z-20">
                   <div className="flex flex-col">
@@ -421,8 +1763,18 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="flex-1 p-4 flex items-center justify-center relative bg-[radial-gradient(circle_at_center,_rgba(255,255,255,0.01)_0%,_transparent_80%)]">
-                  {result ? (
-                    <InpaintCanvas imageUrl={result.imageUrl} isEditMode={isMaskingMode} brushSize={brushSize} onMaskChange={setActiveMask} />
+                  {result && compareVision ? (
+                    <div className="w-full h-full grid grid-cols-2 gap-4">
+                      {[{ label: 'Compared Version', vision: compareVision }, { label: 'Current Version', vision: result }].map(({ label, vision }) => (
+                        <div key={label} className="flex flex-col gap-3 min-h-0">
+                          <span className="text-[9px] font-bold uppercase tracking-widest text-white/40 text-center">{label}{vision.directive ? `: ${vision.directive}` : ''}</span>
+                          <img src={vision.imageUrl} alt={label} className="flex-1 min-h-0 w-full object-contain" />
+                        </div>
+                      ))}
+                      <button onClick={() => setCompareVision(null)} className="absolute top-4 right-4 px-4 py-2 bg-black/60 border border-white/10 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white/60 hover:text-white z-30">Close Compare</button>
+                    </div>
+                  ) : result ? (
+                    <InpaintCanvas imageUrl={result.imageUrl} isEditMode={isMaskingMode} brushSize={brushSize} onBrushSizeChange={setBrushSize} onMaskChange={setActiveMask} onAutoMask={(target) => locateAutoMask(target)} />
                   ) : (
                     <div className="flex flex-col items-center space-y-8 opacity-10">
                       <div className="w-48 h-48 rounded-full border border-white/10 flex items-center justify-center relative">
@@ -445,13 +1797,73 @@ const App: React.FC = () => {
                       <span className="text-[14px] uppercase tracking-[0.8em] text-white font-bold ml-[0.8em]">{status.message}</span>
                       <p className="text-[10px] text-white/30 uppercase tracking-widest max-w-[400px] leading-relaxed italic">Updating {bodyShape} architectural profile and refining physics engine constants...</p>
                     </div>
+                    <button onClick={cancelProduction} className="px-8 py-3 rounded-2xl bg-white/5 border border-white/10 text-white/50 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Cancel</button>
                   </div>
                 )}
               </div>
+
+              {activeLookbook && (
+                <LookbookPanel
+                  lookbook={activeLookbook.lookbook}
+                  shots={activeLookbook.shots}
+                  pendingCount={activeLookbook.pending}
+                  onOpenShot={recallVision}
+                  onClose={() => setActiveLookbook(null)}
+                />
+              )}
+
+              {result && versionHistory.length > 1 && (
+                <VersionTree
+                  versions={versionHistory}
+                  currentId={result.id}
+                  compareId={compareVision?.id || null}
+                  onBranch={(version) => { setResult(version); setActiveMask(null); }}
+                  onRevert={revertToVersion}
+                  onCompare={setCompareVision}
+                />
+              )}
             </div>
           </div>
         )}
 
+        {activeTab === 'blueprints' && (
+          <BlueprintLab
+            blueprints={allBlueprints}
+            activeBlueprintId={activeBlueprintId}
+            isProfiling={status.step === 'profiling'}
+            onAnalyze={analyzeReferences}
+            onSave={saveBlueprint}
+            onDelete={deleteBlueprint}
+            onActivate={(id) => { setActiveBlueprintId(id); setActiveTab('studio'); }}
+          />
+        )}
+
+        {activeTab === 'brand' && (
+          <BrandRulesEditor
+            profiles={brandProfiles}
+            history={brandHistory}
+            activeProfileId={activeBrand.id}
+            onSave={saveBrandProfile}
+            onDelete={deleteBrandProfile}
+            onActivate={(id) => { setActiveBrandId(id); setActiveTab('studio'); }}
+          />
+        )}
+
+        {activeTab === 'casting' && (
+          <CastingLibrary
+            models={castModels}
+            previews={localPreviews}
+            activeModelId={activeCastId}
+            coverage={castCoverage}
+            isGenerating={isCasting}
+            onSave={saveCastModel}
+            onDelete={deleteCastModel}
+            onActivate={activateCastModel}
+            onGenerateHeadshot={generateCastHeadshot}
+            onUploadAnchor={uploadCastAnchor}
+          />
+        )}
+
         {activeTab === 'inventory' && (
           <div className="space-y-8">
             <div className="flex flex-col lg:flex-row justify-between items-center gap-6 glass-card p-8 rounded-[32px]">
@@ -459,15 +1871,65 @@ const App: React.FC = () => {
               <div className="flex flex-wrap items-center gap-4">
                 <input type="text" placeholder="Filter products..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-xs text-white outline-none focus:border-orange-500/40" />
                 <button onClick={() => csvInputRef.current?.click()} className="px-6 py-2 bg-orange-600 hover:bg-orange-500 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white transition-all">Import CSV</button>
-                <input type="file" ref={csvInputRef} className="hidden" accept=".csv" onChange={handleCsvUpload} />
+                <input type="file" ref={csvInputRef} className="hidden" accept=".csv,.tsv,.txt,.json,.xml" onChange={handleCsvUpload} />
+                <select value={imageFilter} onChange={(e) => setImageFilter(e.target.value as ImageFilter)} className="bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-white/60 outline-none focus:border-orange-500/40">
+                  <option value="all">All Images</option>
+                  <option value="broken">Broken Image ({imageIssueCounts.broken})</option>
+                  <option value="manual">Needs Manual Upload ({imageIssueCounts.manual})</option>
+                </select>
+                <button
+                  onClick={() => checkProductImages(productDb)}
+                  disabled={!productDb.length || !!imageCheckProgress}
+                  className="px-6 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white/60 hover:text-white disabled:opacity-50 transition-all"
+                >
+                  {imageCheckProgress ? `Checking ${imageCheckProgress.done}/${imageCheckProgress.total}` : 'Check Images'}
+                </button>
+                <button onClick={() => relinkInputRef.current?.click()} disabled={!productDb.length} className="px-6 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white/60 hover:text-white disabled:opacity-50 transition-all">Relink Local Files</button>
+                <input type="file" ref={relinkInputRef} className="hidden" accept="image/*" multiple onChange={relinkLocalFiles} />
+                <button
+                  onClick={() => setSelectedHandles(selectedHandles.length ? [] : sortedAndFilteredDb.map(p => p.handleId))}
+                  disabled={!!batchJobs.length}
+                  className="px-6 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white/60 hover:text-white disabled:opacity-50 transition-all"
+                >
+                  {selectedHandles.length ? `Clear Selection (${selectedHandles.length})` : 'Select All'}
+                </button>
               </div>
             </div>
 
+            {(selectedHandles.length > 0 || batchJobs.length > 0) && (
+              <BatchRenderPanel
+                selectedCount={selectedHandles.length}
+                jobs={batchJobs}
+                queueState={batchState}
+                defaults={{ poses: [modelPose], locations: [locationStyle === CUSTOM_LOCATION ? BUILT_IN_LOCATIONS[0].name : locationStyle], bodyShapes: [bodyShape], aspectRatios: [aspectRatio], castModelIds: activeCastId ? [activeCastId] : [], studio: captureBatchStudio() }}
+                castModels={castModels}
+                poseOptions={allPoses.map(p => p.name)}
+                locationOptions={allLocations.filter(l => l.name !== CUSTOM_LOCATION).map(l => l.name)}
+                onStart={startBatch}
+                onPause={() => batchQueueRef.current?.pause()}
+                onResume={() => batchQueueRef.current?.resume()}
+                onCancel={() => batchQueueRef.current?.cancel()}
+                onDismiss={dismissBatch}
+              />
+            )}
+
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-6">
               {sortedAndFilteredDb.map(product => (
-                <div key={product.handleId} className="glass-card group rounded-2xl overflow-hidden hover:border-orange-500/30 transition-all flex flex-col relative">
+                <div key={product.handleId} className={`glass-card group rounded-2xl overflow-hidden hover:border-orange-500/30 transition-all flex flex-col relative ${selectedHandles.includes(product.handleId) ? 'border-orange-500/50' : ''}`}>
+                  <button
+                    onClick={() => toggleProductSelection(product.handleId)}
+                    disabled={!!batchJobs.length}
+                    className={`absolute top-2 left-2 z-10 w-5 h-5 rounded-md border text-[10px] leading-none font-bold transition-all ${selectedHandles.includes(product.handleId) ? 'bg-orange-500 border-orange-400 text-white' : 'bg-black/60 border-white/20 text-transparent hover:border-white/60'}`}
+                  >
+                    ✓
+                  </button>
                   <div className="aspect-square relative overflow-hidden bg-black/20" onClick={() => setEditingProduct(product)}>
-                    <InventoryImage src={product.thumbnailUrl || product.imageUrl} alt={product.name} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700 cursor-pointer" />
+                    <InventoryImage src={(product.localImageId && localPreviews[product.localImageId]) || product.thumbnailUrl || product.imageUrl} alt={product.name} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700 cursor-pointer" />
+                    {(hasBrokenImage(product) || needsManualUpload(product)) && (
+                      <span className={`absolute bottom-2 left-2 z-10 px-2 py-1 rounded-md text-[7px] font-bold uppercase tracking-widest ${hasBrokenImage(product) ? 'bg-red-600/90 text-white' : 'bg-amber-500/90 text-black'}`}>
+                        {hasBrokenImage(product) ? 'Broken Image' : 'Manual Upload'}
+                      </span>
+                    )}
                     <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col items-center justify-center p-4 space-y-3">
                       <button 
                         onClick={(e) => { e.stopPropagation(); applyPatternFromDb(product); }}
@@ -475,12 +1937,19 @@ const App: React.FC = () => {
                       >
                         Generate Model
                       </button>
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); addProductToExport(product); }}
+                        className="w-full py-2 bg-white/10 border border-white/20 text-white rounded-lg text-[8px] font-bold uppercase tracking-widest transform translate-y-4 group-hover:translate-y-0 transition-transform duration-300 shadow-lg"
+                      >
+                        {exportList.some(e => e.handleId === product.handleId) ? 'In Export' : 'Add to Export'}
+                      </button>
                     </div>
                   </div>
                   <div className="p-4 space-y-1 cursor-pointer" onClick={() => setEditingProduct(product)}>
                     <h3 className="text-[11px] font-bold text-white line-clamp-1">{product.name}</h3>
                     <div className="flex justify-between items-center">
                       <p className="text-[10px] text-white/40">{product.price}</p>
+                      {!!product.visionIds?.length && <span className="text-[8px] font-bold uppercase tracking-widest text-indigo-400">{product.visionIds.length} Visions</span>}
                     </div>
                   </div>
                 </div>
@@ -490,26 +1959,116 @@ const App: React.FC = () => {
         )}
 
         {activeTab === 'export' && (
-          <div className="space-y-8 text-center py-20">
-            <h2 className="text-2xl font-bold text-white tracking-tighter">Export Engine</h2>
-            <p className="text-white/30 uppercase tracking-[0.4em] text-[10px] mt-2">Manage your re-import manifest</p>
-          </div>
+          <ExportManifest
+            entries={exportList}
+            platform={exportPlatform || inferExportPlatform(exportList)}
+            onPlatformChange={setExportPlatform}
+            onUpdate={(entry) => setExportList(prev => prev.map(e => e.handleId === entry.handleId ? entry : e))}
+            onRemove={(handleId) => setExportList(prev => prev.filter(e => e.handleId !== handleId))}
+            onDownload={downloadExport}
+          />
         )}
 
         {activeTab === 'visions' && (
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
-            {visions.map(v => (
-              <div key={v.id} className="glass-card rounded-2xl overflow-hidden group border border-white/5 hover:border-indigo-500/30 transition-all">
-                <img src={v.imageUrl} className="aspect-[3/4] object-cover group-hover:scale-105 transition-transform duration-700" alt="Vision" />
-                <div className="p-4 text-center border-t border-white/5">
-                   <button onClick={() => { setResult(v); setActiveTab('studio'); }} className="text-[9px] font-bold uppercase tracking-widest text-white/40 hover:text-indigo-400 transition-colors">Recall to Studio</button>
+          <div className="space-y-8">
+            <div className="flex flex-col lg:flex-row justify-between items-center gap-6 glass-card p-8 rounded-[32px]">
+              <div className="flex flex-col space-y-2"><h2 className="text-xl font-bold text-white">Visions</h2><p className="text-[10px] text-white/40 uppercase tracking-widest">{visions.length} visions in the local archive</p></div>
+              {storageUsage && storageUsage.quota > 0 && (
+                <div className="w-full lg:w-72 space-y-2">
+                  <div className="flex justify-between text-[9px] font-bold uppercase tracking-widest">
+                    <span className="text-white/40">Local Storage</span>
+                    <span className={storageUsage.usage / storageUsage.quota > 0.8 ? 'text-red-400' : 'text-white/60'}>{formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}</span>
+                  </div>
+                  <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+                    <div className={`h-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-red-500' : 'bg-orange-500'}`} style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }}></div>
+                  </div>
+                  {storageUsage.usage / storageUsage.quota > 0.8 && <p className="text-[8px] text-red-400/80 uppercase tracking-widest">Storage nearly full: export or remove visions.</p>}
+                </div>
+              )}
+            </div>
+            {lookbooks.length > 0 && (
+              <div className="glass-card p-8 rounded-[32px] space-y-4">
+                <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Lookbooks</label>
+                <div className="flex flex-wrap gap-3">
+                  {lookbooks.map(lb => (
+                    <button key={lb.id} onClick={() => openLookbook(lb)} className="px-4 py-3 bg-white/5 border border-white/10 rounded-2xl text-left hover:border-orange-500/30 transition-all">
+                      <span className="block text-[10px] font-bold text-white line-clamp-1">{lb.productName || lb.handleId || 'Studio pattern'}</span>
+                      <span className="block text-[8px] font-mono uppercase tracking-widest text-white/30 mt-1">{lb.shotIds.length} shots // {new Date(lb.timestamp).toLocaleDateString()}</span>
+                    </button>
+                  ))}
                 </div>
               </div>
-            ))}
+            )}
+            <VisionGallery
+              visions={visions}
+              imageUrls={visionImageUrls}
+              products={productDb}
+              selectedIds={selectedVisionIds}
+              maxCompare={MAX_COMPARE}
+              isBusy={isPackingZip}
+              onSelectionChange={setSelectedVisionIds}
+              onVisibleChange={showVisionImages}
+              onReview={reviewVision}
+              onRecall={recallVision}
+              onAddToExport={addVisionToExport}
+              onCompare={openCompare}
+              onDelete={deleteVisions}
+              onDownload={downloadVisionsZip}
+              onAttach={attachVisionsToProduct}
+            />
           </div>
         )}
       </main>
 
+      {isComparing && compareVisions.length > 1 && (
+        <VisionCompare
+          visions={compareVisions}
+          onReview={reviewVision}
+          onPickWinner={pickWinner}
+          onClose={() => setIsComparing(false)}
+        />
+      )}
+
+      {isEngineSettingsOpen && (
+        <EngineSettings
+          config={engineConfig}
+          onSave={(config) => { setEngineConfigState(setEngineConfig(config)); setIsEngineSettingsOpen(false); }}
+          onClose={() => setIsEngineSettingsOpen(false)}
+        />
+      )}
+
+      {pendingMapping && (
+        <ColumnMapper
+          fileName={pendingMapping.fileName}
+          text={pendingMapping.text}
+          profiles={mappingProfiles}
+          onSaveProfile={saveMappingProfile}
+          onDeleteProfile={(id) => setMappingProfiles(prev => prev.filter(p => p.id !== id))}
+          onConfirm={confirmColumnMapping}
+          onClose={() => setPendingMapping(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportWizard
+          fileName={pendingImport.fileName}
+          items={pendingImport.items}
+          onApply={applyImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {editingProduct && (
+        <ProductEditor
+          product={editingProduct}
+          blueprints={allBlueprints}
+          brandHistory={brandHistory}
+          onSave={saveProductEdits}
+          onClose={() => setEditingProduct(null)}
+          onGenerateDescription={generateProductDescription}
+        />
+      )}
+
       {status.step === 'error' && (
         <div className="fixed bottom-12 left-1/2 -translate-x-1/2 p-6 bg-red-600/30 backdrop-blur-3xl border border-red-500/40 rounded-3xl text-white text-[11px] font-bold uppercase tracking-widest z-[100] shadow-2xl flex flex-col items-center gap-4 animate-in">
           <div className="flex items-center gap-4">
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AspectRatio, BatchJob, BatchRenderSettings, CastModel, ModelPose, PoseStyle } from '../types';
+import { BatchQueueState } from '../services/batchQueue';
+import { BODY_SHAPES } from '../services/scenes';
+
+interface BatchRenderPanelProps {
+  selectedCount: number;
+  jobs: BatchJob[];
+  queueState: BatchQueueState | null;
+  defaults: BatchRenderSettings;
+  castModels: CastModel[];
+  poseOptions: ModelPose[];
+  locationOptions: PoseStyle[];
+  onStart: (settings: BatchRenderSettings, concurrency: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const RATIO_OPTIONS: AspectRatio[] = ["1:1", "3:4", "4:3", "9:16", "16:9"];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const STEP_STYLES: Record<BatchJob['status']['step'], string> = {
+  idle: 'text-white/30',
+  profiling: 'text-indigo-400',
+  production: 'text-indigo-400',
+  rendering: 'text-orange-400',
+  completed: 'text-emerald-400',
+  error: 'text-red-400'
+};
+
+export const BatchRenderPanel: React.FC<BatchRenderPanelProps> = ({
+  selectedCount,
+  jobs,
+  queueState,
+  defaults,
+  castModels,
+  poseOptions,
+  locationOptions,
+  onStart,
+  onPause,
+  onResume,
+  onCancel,
+  onDismiss
+}) => {
+  const [settings, setSettings] = useState<BatchRenderSettings>(defaults);
+  const [concurrency, setConcurrency] = useState(2);
+
+  const castCount = castModels.filter(c => settings.castModelIds.includes(c.id)).length;
+  const matrixSize = settings.poses.length * settings.locations.length * (castCount || settings.bodyShapes.length) * settings.aspectRatios.length;
+  const totalJobs = matrixSize * selectedCount;
+  const isActive = queueState === 'running' || queueState === 'paused';
+  const doneCount = jobs.filter(j => j.status.step === 'completed').length;
+  const failedCount = jobs.filter(j => j.status.step === 'error').length;
+
+  const renderGroup = <K extends keyof BatchRenderSettings>(key: K, label: string, options: BatchRenderSettings[K]) => (
+    <div className="space-y-2">
+      <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">{label}</label>
+      <div className="flex flex-wrap gap-2">
+        {(options as string[]).map(option => {
+          const isOn = (settings[key] as string[]).includes(option);
+          return (
+            <button
+              key={option}
+              disabled={isActive}
+              onClick={() => setSettings({ ...settings, [key]: toggle(settings[key] as string[], option) })}
+              className={`px-3 py-1.5 rounded-full text-[8px] font-bold uppercase tracking-widest transition-all border disabled:opacity-50 ${isOn ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'}`}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="glass-card p-8 rounded-[32px] space-y-6 animate-in">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div className="flex flex-col space-y-1">
+          <h3 className="text-sm font-bold text-white">Batch Render Queue</h3>
+          <p className="text-[9px] text-white/40 uppercase tracking-widest">
+            {jobs.length
+              ? `${doneCount}/${jobs.length} rendered${failedCount ? ` // ${failedCount} failed` : ''}${queueState ? ` // ${queueState}` : ''}`
+              : `${selectedCount} products × ${matrixSize} combinations = ${totalJobs} renders`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {!isActive && (
+            <>
+              <select value={concurrency} onChange={(e) => setConcurrency(parseInt(e.target.value, 10))} className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[9px] text-white/70 outline-none font-bold uppercase tracking-widest">
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n} at a time</option>)}
+              </select>
+              <button onClick={() => onStart(settings, concurrency)} disabled={!totalJobs} className="px-6 py-2 bg-orange-600 hover:bg-orange-500 disabled:opacity-50 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white transition-all">Queue {totalJobs}</button>
+            </>
+          )}
+          {queueState === 'running' && <button onClick={onPause} className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white/60 hover:text-white transition-all">Pause</button>}
+          {queueState === 'paused' && <button onClick={onResume} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white transition-all">Resume</button>}
+          {isActive && <button onClick={onCancel} className="px-4 py-2 bg-red-600/30 border border-red-500/30 rounded-xl text-[10px] font-bold uppercase tracking-widest text-red-200 hover:bg-red-600/50 transition-all">Cancel</button>}
+          {!isActive && jobs.length > 0 && <button onClick={onDismiss} className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white/40 hover:text-white transition-all">Clear Queue</button>}
+        </div>
+      </div>
+
+      {!jobs.length && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderGroup('poses', 'Poses', poseOptions)}
+          {renderGroup('locations', 'Location Styles', locationOptions)}
+          {castCount ? (
+            <p className="self-end text-[9px] text-white/30 uppercase tracking-widest">Body shapes come from the cast models</p>
+          ) : renderGroup('bodyShapes', 'Body Shapes', BODY_SHAPES)}
+          {renderGroup('aspectRatios', 'Aspect Ratios', RATIO_OPTIONS)}
+          {castModels.length > 0 && (
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Cast Models</label>
+              <div className="flex flex-wrap gap-2">
+                {castModels.map(cast => (
+                  <button
+                    key={cast.id}
+                    disabled={isActive}
+                    onClick={() => setSettings({ ...settings, castModelIds: toggle(settings.castModelIds, cast.id) })}
+                    className={`px-3 py-1.5 rounded-full text-[8px] font-bold uppercase tracking-widest transition-all border disabled:opacity-50 ${settings.castModelIds.includes(cast.id) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'}`}
+                  >
+                    {cast.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {jobs.length > 0 && (
+        <div className="max-h-72 overflow-y-auto space-y-2 pr-2">
+          {jobs.map(job => (
+            <div key={job.id} className="flex justify-between items-center gap-4 px-4 py-2 rounded-xl bg-white/5 border border-white/5">
+              <div className="flex flex-col min-w-0">
+                <span className="text-[10px] font-bold text-white line-clamp-1">{job.productName}</span>
+                <span className="text-[8px] text-white/30 font-mono uppercase tracking-widest">{job.modelPose} // {job.locationStyle} // {job.castName || job.bodyShape} // {job.aspectRatio}</span>
+              </div>
+              <span className={`text-[8px] font-bold uppercase tracking-widest shrink-0 ${STEP_STYLES[job.status.step]}`}>{job.status.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { ImageState, FitProfile, SavedBlueprint } from '../types';
+
+interface BlueprintLabProps {
+  blueprints: SavedBlueprint[];
+  activeBlueprintId: string;
+  isProfiling: boolean;
+  onAnalyze: (images: ImageState[]) => Promise<FitProfile | null>;
+  onSave: (blueprint: SavedBlueprint) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string) => void;
+}
+
+interface BlueprintDraft extends FitProfile {
+  id?: string;
+  name: string;
+  referenceCount: number;
+}
+
+const SPEC_FIELDS: { key: keyof FitProfile['specs']; label: string }[] = [
+  { key: 'silhouette', label: 'Silhouette' },
+  { key: 'waistline', label: 'Waistline' },
+  { key: 'texture', label: 'Texture' },
+  { key: 'drape', label: 'Drape' }
+];
+
+const readImageFile = (file: File): Promise<ImageState> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve({
+    base64: (reader.result as string).split(',')[1],
+    mimeType: file.type,
+    previewUrl: URL.createObjectURL(file)
+  });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const BlueprintLab: React.FC<BlueprintLabProps> = ({
+  blueprints,
+  activeBlueprintId,
+  isProfiling,
+  onAnalyze,
+  onSave,
+  onDelete,
+  onActivate
+}) => {
+  const [references, setReferences] = useState<ImageState[]>([]);
+  const [draft, setDraft] = useState<BlueprintDraft | null>(null);
+
+  const handleFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (!files.length) return;
+    const images = await Promise.all(files.map(readImageFile));
+    setReferences(prev => [...prev, ...images]);
+  };
+
+  const runAnalysis = async () => {
+    if (!references.length) return;
+    const profile = await onAnalyze(references);
+    if (!profile) return;
+    setDraft({ ...profile, name: draft?.name || `Blueprint ${blueprints.length}`, id: draft?.id, referenceCount: references.length });
+  };
+
+  const editBlueprint = (bp: SavedBlueprint, asCopy: boolean) => {
+    setDraft({
+      id: asCopy ? undefined : bp.id,
+      name: asCopy ? `${bp.name} (Copy)` : bp.name,
+      description: bp.description,
+      specs: { ...bp.specs },
+      referenceCount: bp.referenceCount
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const saved: SavedBlueprint = {
+      id: draft.id || Date.now().toString(),
+      name: draft.name.trim(),
+      description: draft.description,
+      specs: draft.specs,
+      referenceCount: draft.referenceCount,
+      timestamp: Date.now()
+    };
+    onSave(saved);
+    setDraft(null);
+    setReferences([]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+      <div className="lg:col-span-5 space-y-6">
+        <div className="glass-card p-8 rounded-[40px] space-y-6">
+          <div className="flex flex-col space-y-2">
+            <h2 className="text-xl font-bold text-white">Blueprint Lab</h2>
+            <p className="text-[10px] text-white/40 uppercase tracking-widest">Synthesize a fit blueprint from reference photos</p>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {references.map((img, i) => (
+              <div key={img.previewUrl} className="relative aspect-square rounded-xl overflow-hidden border border-white/10">
+                <img src={img.previewUrl} alt={`Reference ${i + 1}`} className="w-full h-full object-cover" />
+                <button
+                  onClick={() => setReferences(prev => prev.filter((_, idx) => idx !== i))}
+                  className="absolute top-1 right-1 bg-black/60 hover:bg-black/80 text-white rounded-full w-5 h-5 text-[10px] leading-none"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <label className="aspect-square rounded-xl border-2 border-dashed border-white/10 hover:border-white/30 bg-white/5 flex flex-col items-center justify-center cursor-pointer transition-all">
+              <span className="text-lg text-white/30">+</span>
+              <span className="text-[7px] font-bold uppercase tracking-widest text-white/30">Add Photos</span>
+              <input type="file" className="hidden" accept="image/*" multiple onChange={handleFilesChange} />
+            </label>
+          </div>
+
+          <button
+            onClick={runAnalysis}
+            disabled={!references.length || isProfiling}
+            className="w-full py-5 rounded-3xl bg-orange-600 text-white font-bold text-xs uppercase tracking-[0.3em] shadow-2xl disabled:opacity-50 hover:bg-orange-500 transition-all"
+          >
+            {isProfiling ? 'Analyzing Architecture...' : `Analyze ${references.length || ''} Reference${references.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+
+        <div className="glass-card p-8 rounded-[40px] space-y-4">
+          <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Saved Blueprints</label>
+          {blueprints.map(bp => (
+            <div key={bp.id} className={`p-4 rounded-2xl border transition-all ${activeBlueprintId === bp.id ? 'border-orange-500/40 bg-orange-500/5' : 'border-white/10 bg-white/5'}`}>
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-col">
+                  <span className="text-[11px] font-bold text-white">{bp.name}</span>
+                  <span className="text-[8px] text-white/30 uppercase tracking-widest mt-1">{bp.specs.silhouette}</span>
+                </div>
+                {activeBlueprintId === bp.id && <span className="text-[8px] font-bold uppercase tracking-widest text-orange-400">Active</span>}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <button onClick={() => onActivate(bp.id)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Use in Studio</button>
+                {!bp.isBuiltIn && <button onClick={() => editBlueprint(bp, false)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Edit</button>}
+                <button onClick={() => editBlueprint(bp, true)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Duplicate</button>
+                {!bp.isBuiltIn && <button onClick={() => onDelete(bp.id)} className="px-3 py-1.5 bg-red-600/20 border border-red-500/20 rounded-lg text-[8px] font-bold uppercase tracking-widest text-red-300 hover:bg-red-600/40 transition-all">Delete</button>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-7">
+        <div className="glass-card p-8 rounded-[40px] space-y-6 min-h-[400px]">
+          {draft ? (
+            <>
+              <div>
+                <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Blueprint Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white outline-none focus:border-orange-500/30"
+                />
+              </div>
+              <div>
+                <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Architecture Summary</label>
+                <textarea
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="w-full bg-black/60 border border-white/10 rounded-2xl px-5 py-4 text-xs text-white outline-none resize-none h-28 leading-relaxed focus:border-orange-500/30"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {SPEC_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">{label}</label>
+                    <textarea
+                      value={draft.specs[key]}
+                      onChange={(e) => setDraft({ ...draft, specs: { ...draft.specs, [key]: e.target.value } })}
+                      className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[11px] text-white outline-none resize-none h-20 focus:border-orange-500/30"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={saveDraft} disabled={!draft.name.trim()} className="py-4 rounded-2xl bg-indigo-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-500 disabled:opacity-50 transition-all">Save Blueprint</button>
+                <button onClick={() => setDraft(null)} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Discard</button>
+              </div>
+            </>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center py-24 opacity-20 text-center">
+              <span className="text-[12px] uppercase tracking-[0.6em] font-bold">No Draft Loaded</span>
+              <span className="text-[9px] uppercase tracking-widest mt-4">Analyze references or edit a saved blueprint</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
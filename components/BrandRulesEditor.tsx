@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { BrandRule, BrandRuleProfile, CopyTone } from '../types';
+import { SIGNATURE_BRAND_PROFILE } from '../services/brandRules';
+
+interface BrandRulesEditorProps {
+  profiles: BrandRuleProfile[];
+  history: BrandRuleProfile[];
+  activeProfileId: string;
+  onSave: (profile: Omit<BrandRuleProfile, 'version' | 'timestamp'>) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string) => void;
+}
+
+type BrandDraft = Omit<BrandRuleProfile, 'version' | 'timestamp' | 'isBuiltIn'> & { collectionsText: string };
+
+const TONES: CopyTone[] = ["Poetic", "Minimal", "Playful", "Technical"];
+
+const toDraft = (profile: BrandRuleProfile, asCopy: boolean): BrandDraft => ({
+  id: asCopy ? Date.now().toString() : profile.id,
+  name: asCopy ? `${profile.name} (Copy)` : profile.name,
+  brandName: profile.brandName,
+  persona: profile.persona,
+  copyTone: profile.copyTone,
+  rules: profile.rules.map(r => ({ ...r })),
+  collections: profile.collections,
+  collectionsText: profile.collections.join(', ')
+});
+
+export const BrandRulesEditor: React.FC<BrandRulesEditorProps> = ({
+  profiles,
+  history,
+  activeProfileId,
+  onSave,
+  onDelete,
+  onActivate
+}) => {
+  const [draft, setDraft] = useState<BrandDraft | null>(null);
+
+  const versions = draft ? history.filter(p => p.id === draft.id).sort((a, b) => b.version - a.version) : [];
+
+  const updateRule = (id: string, patch: Partial<BrandRule>) => {
+    if (!draft) return;
+    setDraft({ ...draft, rules: draft.rules.map(r => r.id === id ? { ...r, ...patch } : r) });
+  };
+
+  const addRule = (kind: BrandRule['kind']) => {
+    if (!draft) return;
+    setDraft({ ...draft, rules: [...draft.rules, { id: `rule_${Date.now()}`, kind, label: '', text: '' }] });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const { collectionsText, ...profile } = draft;
+    onSave({
+      ...profile,
+      name: profile.name.trim(),
+      rules: profile.rules.filter(r => r.label.trim() && r.text.trim()),
+      collections: collectionsText.split(',').map(c => c.trim()).filter(Boolean)
+    });
+    setDraft(null);
+  };
+
+  const ruleList = (kind: BrandRule['kind'], title: string) => (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[9px] font-bold uppercase tracking-widest text-white/40">{title}</label>
+        <button onClick={() => addRule(kind)} className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">+ Add Rule</button>
+      </div>
+      {draft!.rules.filter(r => r.kind === kind).map(rule => (
+        <div key={rule.id} className="grid grid-cols-12 gap-2">
+          <input
+            placeholder="Label"
+            value={rule.label}
+            onChange={(e) => updateRule(rule.id, { label: e.target.value })}
+            className="col-span-3 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[10px] text-white outline-none focus:border-orange-500/30"
+          />
+          <input
+            placeholder={kind === 'must' ? 'What every render must show' : 'What must never appear'}
+            value={rule.text}
+            onChange={(e) => updateRule(rule.id, { text: e.target.value })}
+            className="col-span-8 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[10px] text-white outline-none focus:border-orange-500/30"
+          />
+          <button onClick={() => setDraft({ ...draft!, rules: draft!.rules.filter(r => r.id !== rule.id) })} className="col-span-1 text-white/30 hover:text-red-400 text-xs transition-colors">×</button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+      <div className="lg:col-span-5 space-y-6">
+        <div className="glass-card p-8 rounded-[40px] space-y-4">
+          <div className="flex flex-col space-y-2">
+            <h2 className="text-xl font-bold text-white">Brand Rules</h2>
+            <p className="text-[10px] text-white/40 uppercase tracking-widest">Guardrails and copy voice per capsule line</p>
+          </div>
+          {profiles.map(profile => (
+            <div key={profile.id} className={`p-4 rounded-2xl border transition-all ${activeProfileId === profile.id ? 'border-orange-500/40 bg-orange-500/5' : 'border-white/10 bg-white/5'}`}>
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-col">
+                  <span className="text-[11px] font-bold text-white">{profile.name}</span>
+                  <span className="text-[8px] text-white/30 uppercase tracking-widest mt-1">
+                    v{profile.version} // {profile.rules.length} rules{profile.collections.length ? ` // ${profile.collections.join(', ')}` : ''}
+                  </span>
+                </div>
+                {activeProfileId === profile.id && <span className="text-[8px] font-bold uppercase tracking-widest text-orange-400">Active</span>}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <button onClick={() => onActivate(profile.id)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Use in Studio</button>
+                <button onClick={() => setDraft(toDraft(profile, false))} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Edit</button>
+                <button onClick={() => setDraft(toDraft(profile, true))} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Duplicate</button>
+                {profile.id !== SIGNATURE_BRAND_PROFILE.id && <button onClick={() => onDelete(profile.id)} className="px-3 py-1.5 bg-red-600/20 border border-red-500/20 rounded-lg text-[8px] font-bold uppercase tracking-widest text-red-300 hover:bg-red-600/40 transition-all">Delete</button>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-7">
+        <div className="glass-card p-8 rounded-[40px] space-y-6 min-h-[400px]">
+          {draft ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Profile Name</label>
+                  <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white outline-none focus:border-orange-500/30" />
+                </div>
+                <div>
+                  <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Brand Name</label>
+                  <input value={draft.brandName} onChange={(e) => setDraft({ ...draft, brandName: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white outline-none focus:border-orange-500/30" />
+                </div>
+              </div>
+
+              {ruleList('must', 'Must Have')}
+              {ruleList('must_not', 'Must Not Have')}
+
+              <div className="grid grid-cols-3 gap-4 pt-6 border-t border-white/5">
+                <div className="col-span-2">
+                  <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Copywriter Persona</label>
+                  <input value={draft.persona} onChange={(e) => setDraft({ ...draft, persona: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white outline-none focus:border-orange-500/30" />
+                </div>
+                <div>
+                  <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Copy Tone</label>
+                  <select value={draft.copyTone} onChange={(e) => setDraft({ ...draft, copyTone: e.target.value as CopyTone })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                    {TONES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Collections</label>
+                <input
+                  placeholder="Comma separated, e.g. Desert Capsule, Summer Drop"
+                  value={draft.collectionsText}
+                  onChange={(e) => setDraft({ ...draft, collectionsText: e.target.value })}
+                  className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white placeholder:text-white/20 outline-none focus:border-orange-500/30"
+                />
+                <p className="mt-2 text-[8px] text-white/30 leading-relaxed">Products in these collections use this profile unless one is picked in the product editor.</p>
+              </div>
+
+              {versions.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Version History</label>
+                  <div className="rounded-xl border border-white/5 divide-y divide-white/5">
+                    {versions.map(v => (
+                      <div key={v.version} className="flex justify-between items-center px-4 py-2">
+                        <span className="text-[10px] font-mono text-white/50">v{v.version} // {new Date(v.timestamp).toLocaleString()} // {v.rules.length} rules</span>
+                        <button onClick={() => setDraft(toDraft(v, false))} className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Load</button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={saveDraft} disabled={!draft.name.trim()} className="py-4 rounded-2xl bg-indigo-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-500 disabled:opacity-50 transition-all">Save New Version</button>
+                <button onClick={() => setDraft(null)} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Discard</button>
+              </div>
+            </>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center py-24 opacity-20 text-center">
+              <span className="text-[12px] uppercase tracking-[0.6em] font-bold">No Profile Loaded</span>
+              <span className="text-[9px] uppercase tracking-widest mt-4">Edit or duplicate a brand profile</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AgeRange, CastModel, Ethnicity, Gender } from '../types';
+import { ProductCoverage } from '../services/casting';
+import { BODY_SHAPES } from '../services/scenes';
+
+interface CastingLibraryProps {
+  models: CastModel[];
+  previews: Record<string, string>;
+  activeModelId: string;
+  coverage: ProductCoverage[] | null;
+  isGenerating: boolean;
+  onSave: (model: CastModel) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string) => void;
+  onGenerateHeadshot: (model: CastModel) => Promise<CastModel | null>;
+  onUploadAnchor: (model: CastModel, file: File) => Promise<CastModel | null>;
+}
+
+const AGE_RANGES: AgeRange[] = ["18-24", "25-34", "35-44", "45-54", "55+"];
+const GENDERS: Gender[] = ["Male", "Female", "Unisex"];
+
+const emptyModel = (): CastModel => ({
+  id: Date.now().toString(),
+  name: '',
+  timestamp: Date.now(),
+  ethnicity: Ethnicity.MIXED_RACE,
+  gender: "Unisex",
+  bodyShape: "Athletic",
+  ageRange: "25-34",
+  height: '',
+  hair: '',
+  notes: ''
+});
+
+export const CastingLibrary: React.FC<CastingLibraryProps> = ({
+  models,
+  previews,
+  activeModelId,
+  coverage,
+  isGenerating,
+  onSave,
+  onDelete,
+  onActivate,
+  onGenerateHeadshot,
+  onUploadAnchor
+}) => {
+  const [draft, setDraft] = useState<CastModel | null>(null);
+
+  const selectClass = "w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30";
+  const inputClass = "w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white placeholder:text-white/20 outline-none focus:border-orange-500/30";
+
+  const generate = async () => {
+    if (!draft) return;
+    const updated = await onGenerateHeadshot(draft);
+    if (updated) setDraft(updated);
+  };
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!draft || !file) return;
+    const updated = await onUploadAnchor(draft, file);
+    if (updated) setDraft(updated);
+  };
+
+  const save = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim(), timestamp: Date.now() });
+    setDraft(null);
+  };
+
+  const ethnicities = Object.values(Ethnicity);
+  const shotProducts = coverage?.filter(row => row.visionCount > 0) || [];
+
+  return (
+    <div className="space-y-12">
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+        <div className="lg:col-span-5 space-y-6">
+          <div className="glass-card p-8 rounded-[40px] space-y-4">
+            <div className="flex justify-between items-start gap-4">
+              <div className="flex flex-col space-y-2">
+                <h2 className="text-xl font-bold text-white">Casting</h2>
+                <p className="text-[10px] text-white/40 uppercase tracking-widest">Saved models for Studio and batch renders</p>
+              </div>
+              <button onClick={() => setDraft(emptyModel())} className="px-4 py-2 bg-orange-600 hover:bg-orange-500 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white transition-all">New Model</button>
+            </div>
+            {models.length === 0 && <p className="text-[10px] text-white/30 uppercase tracking-widest py-6 text-center">No models cast yet</p>}
+            {models.map(model => (
+              <div key={model.id} className={`p-4 rounded-2xl border transition-all flex gap-4 ${activeModelId === model.id ? 'border-orange-500/40 bg-orange-500/5' : 'border-white/10 bg-white/5'}`}>
+                <div className="w-14 h-14 rounded-xl overflow-hidden bg-black/40 shrink-0">
+                  {model.anchorImageId && previews[model.anchorImageId] && <img src={previews[model.anchorImageId]} alt={model.name} className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-[11px] font-bold text-white truncate">{model.name}</span>
+                      <span className="text-[8px] text-white/30 uppercase tracking-widest mt-1">{model.gender} // {model.ethnicity} // {model.bodyShape} // {model.ageRange}</span>
+                    </div>
+                    {activeModelId === model.id && <span className="text-[8px] font-bold uppercase tracking-widest text-orange-400">Active</span>}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => onActivate(model.id)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Use in Studio</button>
+                    <button onClick={() => setDraft({ ...model })} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Edit</button>
+                    <button onClick={() => onDelete(model.id)} className="px-3 py-1.5 bg-red-600/20 border border-red-500/20 rounded-lg text-[8px] font-bold uppercase tracking-widest text-red-300 hover:bg-red-600/40 transition-all">Delete</button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="lg:col-span-7">
+          <div className="glass-card p-8 rounded-[40px] space-y-6 min-h-[400px]">
+            {draft ? (
+              <>
+                <div className="flex gap-6">
+                  <div className="w-32 h-32 rounded-2xl overflow-hidden bg-black/40 border border-white/10 shrink-0 flex items-center justify-center">
+                    {draft.anchorImageId && previews[draft.anchorImageId]
+                      ? <img src={previews[draft.anchorImageId]} alt="Anchor" className="w-full h-full object-cover" />
+                      : <span className="text-[8px] font-bold uppercase tracking-widest text-white/20">No Anchor</span>}
+                  </div>
+                  <div className="flex-1 space-y-3">
+                    <div>
+                      <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Name</label>
+                      <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Amara, Desert Capsule lead" className={inputClass} />
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={generate} disabled={isGenerating} className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white transition-all">{isGenerating ? 'Casting...' : 'Generate Headshot'}</button>
+                      <label className={`flex-1 py-2 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white text-center cursor-pointer transition-all ${isGenerating ? 'opacity-50 pointer-events-none' : ''}`}>
+                        Upload Anchor
+                        <input type="file" accept="image/*" className="hidden" onChange={upload} />
+                      </label>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Race</label>
+                    <select value={draft.ethnicity} onChange={(e) => setDraft({ ...draft, ethnicity: e.target.value as Ethnicity })} className={selectClass}>
+                      {ethnicities.map(e => <option key={e} value={e}>{e}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Gender</label>
+                    <select value={draft.gender} onChange={(e) => setDraft({ ...draft, gender: e.target.value as Gender })} className={selectClass}>
+                      {GENDERS.map(g => <option key={g} value={g}>{g}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Body Archetype</label>
+                    <select value={draft.bodyShape} onChange={(e) => setDraft({ ...draft, bodyShape: e.target.value as CastModel['bodyShape'] })} className={selectClass}>
+                      {BODY_SHAPES.map(b => <option key={b} value={b}>{b}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Age Range</label>
+                    <select value={draft.ageRange} onChange={(e) => setDraft({ ...draft, ageRange: e.target.value as AgeRange })} className={selectClass}>
+                      {AGE_RANGES.map(a => <option key={a} value={a}>{a}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Height</label>
+                    <input value={draft.height} onChange={(e) => setDraft({ ...draft, height: e.target.value })} placeholder="e.g. 178 cm" className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Hair</label>
+                    <input value={draft.hair} onChange={(e) => setDraft({ ...draft, hair: e.target.value })} placeholder="e.g. short black locs" className={inputClass} />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Notes</label>
+                  <textarea value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Distinguishing features, tattoos, styling notes" className={`${inputClass} resize-none h-20`} />
+                </div>
+
+                {draft.identity && (
+                  <p className="text-[10px] text-white/40 leading-relaxed"><span className="font-bold uppercase tracking-widest text-white/30 text-[8px]">Identity // </span>{draft.identity}</p>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <button onClick={save} disabled={!draft.name.trim()} className="py-4 rounded-2xl bg-indigo-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-500 disabled:opacity-50 transition-all">Save Model</button>
+                  <button onClick={() => setDraft(null)} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Discard</button>
+                </div>
+              </>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center py-24 opacity-20 text-center">
+                <span className="text-[12px] uppercase tracking-[0.6em] font-bold">No Model Loaded</span>
+                <span className="text-[9px] uppercase tracking-widest mt-4">Cast a new model or edit a saved one</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="glass-card p-8 rounded-[40px] space-y-6">
+        <div className="flex flex-col space-y-2">
+          <h3 className="text-sm font-bold text-white">Inclusivity Coverage</h3>
+          <p className="text-[9px] text-white/40 uppercase tracking-widest">Renders per product by ethnicity and body shape // empty cells are gaps</p>
+        </div>
+        {!coverage ? (
+          <p className="text-[10px] text-white/30 uppercase tracking-widest">Loading archive...</p>
+        ) : shotProducts.length === 0 ? (
+          <p className="text-[10px] text-white/30 uppercase tracking-widest">No product renders yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-[9px] border-separate border-spacing-1">
+              <thead>
+                <tr>
+                  <th className="text-left font-bold uppercase tracking-widest text-white/40 px-2">Product</th>
+                  {ethnicities.map(e => <th key={e} className="font-bold uppercase tracking-widest text-white/40 px-1 align-bottom">{e}</th>)}
+                  <th className="w-4"></th>
+                  {BODY_SHAPES.map(b => <th key={b} className="font-bold uppercase tracking-widest text-indigo-300/60 px-1 align-bottom">{b}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {shotProducts.map(row => (
+                  <tr key={row.product.handleId}>
+                    <td className="px-2 py-1 text-white/70 max-w-[180px] truncate" title={row.product.name}>{row.product.name} <span className="text-white/30">({row.visionCount})</span></td>
+                    {ethnicities.map(e => (
+                      <td key={e} className={`text-center rounded-md py-1 font-mono ${row.ethnicities[e] ? 'bg-orange-500/20 text-orange-200' : 'bg-white/[0.03] text-white/10'}`}>{row.ethnicities[e] || '·'}</td>
+                    ))}
+                    <td></td>
+                    {BODY_SHAPES.map(b => (
+                      <td key={b} className={`text-center rounded-md py-1 font-mono ${row.bodyShapes[b] ? 'bg-indigo-500/20 text-indigo-200' : 'bg-white/[0.03] text-white/10'}`}>{row.bodyShapes[b] || '·'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {coverage.length > shotProducts.length && (
+              <p className="mt-4 text-[9px] text-white/30 uppercase tracking-widest">{coverage.length - shotProducts.length} products have no renders yet</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
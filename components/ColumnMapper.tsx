@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, CsvDelimiter, ImportField, ImportMappingProfile } from '../types';
+import { IMPORT_FIELDS, detectDelimiter, guessColumnMapping, parseProductCSV, readCsvTable } from '../services/csvParser';
+
+interface ColumnMapperProps {
+  fileName: string;
+  text: string;
+  profiles: ImportMappingProfile[];
+  onSaveProfile: (name: string, delimiter: CsvDelimiter, mapping: ColumnMapping) => void;
+  onDeleteProfile: (id: string) => void;
+  onConfirm: (delimiter: CsvDelimiter, mapping: ColumnMapping) => void;
+  onClose: () => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+// A profile applies when every column it maps exists in the file
+const profileFits = (profile: ImportMappingProfile, headers: string[]) =>
+  Object.values(profile.mapping).every(column => column === null || headers.includes(column));
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  fileName,
+  text,
+  profiles,
+  onSaveProfile,
+  onDeleteProfile,
+  onConfirm,
+  onClose
+}) => {
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(() => detectDelimiter(text));
+  const table = useMemo(() => readCsvTable(text, delimiter), [text, delimiter]);
+  const matchingProfile = profiles.find(p => p.delimiter === delimiter && profileFits(p, table.headers));
+  const [profileId, setProfileId] = useState(matchingProfile?.id || '');
+  const [mapping, setMapping] = useState<ColumnMapping>(() => matchingProfile?.mapping || guessColumnMapping(table.headers));
+  const [profileName, setProfileName] = useState('');
+
+  const preview = useMemo(() => parseProductCSV(text, { delimiter, mapping }), [text, delimiter, mapping]);
+  const sampleRow = table.rows[0] || [];
+
+  const changeDelimiter = (next: CsvDelimiter) => {
+    setDelimiter(next);
+    setProfileId('');
+    setMapping(guessColumnMapping(readCsvTable(text, next).headers));
+  };
+
+  const applyProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) {
+      setMapping(guessColumnMapping(table.headers));
+      return;
+    }
+    if (profile.delimiter !== delimiter) setDelimiter(profile.delimiter);
+    setMapping(profile.mapping);
+  };
+
+  const setField = (field: ImportField, column: string) => {
+    setProfileId('');
+    setMapping(prev => ({ ...prev, [field]: column || null }));
+  };
+
+  const saveProfile = () => {
+    if (!profileName.trim()) return;
+    onSaveProfile(profileName.trim(), delimiter, mapping);
+    setProfileName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#0d0d0d] border border-white/10 rounded-[32px] overflow-hidden animate-in">
+        <div className="p-8 border-b border-white/5 flex justify-between items-start gap-6">
+          <div className="flex flex-col space-y-2">
+            <h2 className="text-xl font-bold text-white">Map Columns</h2>
+            <span className="text-[9px] font-mono uppercase tracking-widest text-white/30">{fileName} // {table.headers.length} columns // {table.rows.length} rows</span>
+          </div>
+          <button onClick={onClose} className="text-[10px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Delimiter</label>
+              <select value={delimiter} onChange={(e) => changeDelimiter(e.target.value as CsvDelimiter)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Mapping Profile</label>
+              <div className="flex gap-2">
+                <select value={profileId} onChange={(e) => applyProfile(e.target.value)} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                  <option value="">Auto-detected</option>
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {profileId && (
+                  <button onClick={() => { onDeleteProfile(profileId); applyProfile(''); }} className="px-3 bg-white/5 border border-white/10 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/40 hover:text-red-400 transition-all">Delete</button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-white/5 divide-y divide-white/5">
+            {IMPORT_FIELDS.map(({ key, label }) => {
+              const column = mapping[key];
+              const sample = column !== null ? sampleRow[table.headers.indexOf(column)] : undefined;
+              return (
+                <div key={key} className="grid grid-cols-3 gap-4 items-center px-5 py-3">
+                  <span className="text-[9px] font-bold uppercase tracking-widest text-white/50">{label}</span>
+                  <select value={column || ''} onChange={(e) => setField(key, e.target.value)} className="bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-[10px] text-white/70 outline-none focus:border-orange-500/30">
+                    <option value="">— Not mapped —</option>
+                    {table.headers.map((h, i) => <option key={`${h}-${i}`} value={h}>{h}</option>)}
+                  </select>
+                  <span className="text-[10px] font-mono text-white/30 truncate" title={sample}>{sample || '—'}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Save mapping as, e.g. EU wholesale sheet"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') saveProfile(); }}
+              className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-orange-500/30"
+            />
+            <button onClick={saveProfile} disabled={!profileName.trim()} className="px-4 bg-white/5 border border-white/10 disabled:opacity-50 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Save Profile</button>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-white/5 space-y-4">
+          <p className="text-[9px] font-bold uppercase tracking-widest text-white/40">
+            {preview.length} product{preview.length === 1 ? '' : 's'} will be imported{!mapping.name || !mapping.imageUrl ? ' // name and image columns are required' : ''}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={() => onConfirm(delimiter, mapping)} disabled={!preview.length} className="py-4 rounded-2xl bg-orange-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-orange-500 disabled:opacity-50 transition-all">Continue</button>
+            <button onClick={onClose} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Cancel</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
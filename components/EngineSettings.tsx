@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { EngineConfig, EngineProviderId } from '../services/engineConfig';
+
+interface EngineSettingsProps {
+  config: EngineConfig;
+  onSave: (config: EngineConfig) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: EngineProviderId; label: string; hint: string }[] = [
+  { id: 'gemini', label: 'Gemini', hint: 'Live generation. Uses API credits.' },
+  { id: 'mock', label: 'Offline Mock', hint: 'Deterministic placeholder images and canned text.' }
+];
+
+export const EngineSettings: React.FC<EngineSettingsProps> = ({ config, onSave, onClose }) => {
+  const [draft, setDraft] = useState<EngineConfig>(config);
+
+  return (
+    <div className="fixed inset-0 z-[95] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-md glass-card bg-[#0d0d0d] rounded-[32px] p-8 space-y-6 animate-in">
+        <h2 className="text-lg font-bold text-white">Engine Settings</h2>
+
+        <div className="grid grid-cols-2 gap-2">
+          {PROVIDERS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setDraft({ ...draft, provider: p.id })}
+              className={`p-4 rounded-2xl border text-left transition-all ${draft.provider === p.id ? 'bg-orange-500/10 border-orange-500/40' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+            >
+              <span className="block text-[10px] font-bold uppercase tracking-widest text-white">{p.label}</span>
+              <span className="block text-[8px] text-white/40 mt-1 leading-relaxed">{p.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Text Model</label>
+          <input value={draft.textModel} onChange={(e) => setDraft({ ...draft, textModel: e.target.value })} disabled={draft.provider === 'mock'} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white font-mono outline-none focus:border-orange-500/30 disabled:opacity-40" />
+        </div>
+        <div>
+          <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Image Model</label>
+          <input value={draft.imageModel} onChange={(e) => setDraft({ ...draft, imageModel: e.target.value })} disabled={draft.provider === 'mock'} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white font-mono outline-none focus:border-orange-500/30 disabled:opacity-40" />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Timeout (s)</label>
+            <input type="number" min={5} value={draft.timeoutMs ? Math.round(draft.timeoutMs / 1000) : ''} onChange={(e) => setDraft({ ...draft, timeoutMs: parseInt(e.target.value, 10) * 1000 })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white font-mono outline-none focus:border-orange-500/30" />
+          </div>
+          <div>
+            <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Retries</label>
+            <input type="number" min={0} max={6} value={Number.isNaN(draft.maxRetries) ? '' : draft.maxRetries} onChange={(e) => setDraft({ ...draft, maxRetries: parseInt(e.target.value, 10) })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white font-mono outline-none focus:border-orange-500/30" />
+          </div>
+        </div>
+        <p className="text-[8px] text-white/30 leading-relaxed">Rate limits, server errors and timeouts are retried with exponential backoff. Safety blocks and key errors are not.</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => onSave(draft)} className="py-4 rounded-2xl bg-orange-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] hover:bg-orange-500 transition-all">Save</button>
+          <button onClick={onClose} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { ExportEntry, StorePlatform } from '../types';
+import { findLocalRenders } from '../services/csvExporter';
+
+interface ExportManifestProps {
+  entries: ExportEntry[];
+  platform: StorePlatform;
+  onPlatformChange: (platform: StorePlatform) => void;
+  onUpdate: (entry: ExportEntry) => void;
+  onRemove: (handleId: string) => void;
+  onDownload: () => void;
+}
+
+const PLATFORM_LABELS: Record<StorePlatform, string> = {
+  shopify: 'Shopify',
+  wix: 'Wix',
+  generic: 'Generic CSV'
+};
+
+export const ExportManifest: React.FC<ExportManifestProps> = ({
+  entries,
+  platform,
+  onPlatformChange,
+  onUpdate,
+  onRemove,
+  onDownload
+}) => {
+  const localRenders = findLocalRenders(entries);
+  const localRenderCount = localRenders.reduce((n, r) => n + r.count, 0);
+
+  const updateImage = (entry: ExportEntry, index: number, value: string) => {
+    onUpdate({ ...entry, generatedImageUrls: entry.generatedImageUrls.map((u, i) => i === index ? value : u) });
+  };
+
+  const dropImage = (entry: ExportEntry, index: number) => {
+    onUpdate({
+      ...entry,
+      generatedImageUrls: entry.generatedImageUrls.filter((_, i) => i !== index),
+      generatedVisionIds: entry.generatedVisionIds?.filter((_, i) => i !== index)
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col lg:flex-row justify-between items-center gap-6 glass-card p-8 rounded-[32px]">
+        <div className="flex flex-col space-y-2">
+          <h2 className="text-xl font-bold text-white">Export Engine</h2>
+          <p className="text-[10px] text-white/40 uppercase tracking-widest">{entries.length} products in re-import manifest</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <select value={platform} onChange={(e) => onPlatformChange(e.target.value as StorePlatform)} className="bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-[10px] text-white/70 outline-none font-bold uppercase tracking-widest">
+            {(Object.keys(PLATFORM_LABELS) as StorePlatform[]).map(p => <option key={p} value={p}>{PLATFORM_LABELS[p]} Layout</option>)}
+          </select>
+          <button onClick={onDownload} disabled={!entries.length} className="px-6 py-2 bg-orange-600 hover:bg-orange-500 disabled:opacity-50 rounded-xl text-[10px] font-bold uppercase tracking-widest text-white transition-all">Download CSV</button>
+        </div>
+      </div>
+
+      {localRenderCount > 0 && (
+        <div className="bg-orange-500/5 border border-orange-500/20 p-4 rounded-2xl space-y-2">
+          <span className="text-[9px] font-bold uppercase tracking-widest text-orange-400 block">
+            {localRenderCount} generated image{localRenderCount === 1 ? ' is' : 's are'} stored locally and will be left out of the CSV. Paste a hosted URL for each:
+          </span>
+          <ul className="space-y-1">
+            {localRenders.map(({ entry, count }) => (
+              <li key={entry.handleId} className="text-[9px] font-mono text-orange-200/70">
+                {entry.name} <span className="text-white/30">({entry.handleId})</span> — {count} image{count === 1 ? '' : 's'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!entries.length && (
+        <div className="text-center py-20">
+          <p className="text-white/30 uppercase tracking-[0.4em] text-[10px]">Add products from Inventory or Visions to build the manifest</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {entries.map(entry => (
+          <div key={entry.handleId} className="glass-card p-6 rounded-[28px] grid grid-cols-1 lg:grid-cols-12 gap-6">
+            <div className="lg:col-span-3 flex flex-col gap-3">
+              <div className="aspect-square rounded-xl overflow-hidden bg-black/20">
+                {entry.thumbnailUrl || entry.imageUrl ? <img src={entry.thumbnailUrl || entry.imageUrl} alt={entry.name} className="w-full h-full object-cover" /> : null}
+              </div>
+              <span className="text-[8px] font-mono uppercase tracking-widest text-white/30 line-clamp-1">{entry.handleId}{entry.sku ? ` // ${entry.sku}` : ''}</span>
+            </div>
+            <div className="lg:col-span-9 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input value={entry.name} onChange={(e) => onUpdate({ ...entry, name: e.target.value })} className="md:col-span-2 bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-xs text-white outline-none focus:border-orange-500/30" />
+                <input value={entry.price} onChange={(e) => onUpdate({ ...entry, price: e.target.value })} className="bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-xs text-white outline-none focus:border-orange-500/30" />
+              </div>
+              <textarea value={entry.description} onChange={(e) => onUpdate({ ...entry, description: e.target.value })} placeholder="Product description..." className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[11px] text-white outline-none resize-none h-20 focus:border-orange-500/30" />
+              <div className="space-y-2">
+                <label className="text-[8px] font-bold uppercase tracking-widest text-white/30 block">Generated Images</label>
+                {entry.generatedImageUrls.map((url, i) => (
+                  <div key={i} className="flex items-center gap-3">
+                    <img src={url} alt="" className="w-10 h-10 rounded-lg object-cover bg-black/20 shrink-0" />
+                    <input
+                      value={url.startsWith('data:') ? '' : url}
+                      placeholder="Local render: paste hosted URL"
+                      onChange={(e) => updateImage(entry, i, e.target.value)}
+                      className={`flex-1 bg-black/40 border rounded-xl px-4 py-2 text-[10px] text-white font-mono outline-none focus:border-orange-500/30 ${url.startsWith('data:') ? 'border-orange-500/40 placeholder:text-orange-300/60' : 'border-white/10'}`}
+                    />
+                    <button onClick={() => dropImage(entry, i)} className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-red-400 transition-colors">Drop</button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <button onClick={() => onRemove(entry.handleId)} className="px-4 py-2 bg-red-600/20 border border-red-500/20 rounded-xl text-[8px] font-bold uppercase tracking-widest text-red-300 hover:bg-red-600/40 transition-all">Remove from Export</button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { diffWords } from '../services/textDiff';
+import { MERGE_FIELDS, MergeChoices, MergeField, MergeItem, MergeSide, mergeItemKey } from '../services/productMerge';
+
+interface ImportWizardProps {
+  fileName: string;
+  items: MergeItem[];
+  onApply: (choices: MergeChoices, removeMissing: boolean) => void;
+  onClose: () => void;
+}
+
+type WizardFilter = 'changed' | 'new' | 'removed';
+
+const FIELD_LABELS = Object.fromEntries(MERGE_FIELDS.map(f => [f.key, f.label])) as Record<MergeField, string>;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ fileName, items, onApply, onClose }) => {
+  const [choices, setChoices] = useState<MergeChoices>({});
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [filter, setFilter] = useState<WizardFilter>('changed');
+
+  const counts = useMemo(() => ({
+    changed: items.filter(i => i.kind === 'changed').length,
+    new: items.filter(i => i.kind === 'new').length,
+    removed: items.filter(i => i.kind === 'removed').length,
+    unchanged: items.filter(i => i.kind === 'unchanged').length
+  }), [items]);
+
+  const visible = items.filter(i => i.kind === filter);
+
+  const choose = (item: MergeItem, field: MergeField, side: MergeSide) => {
+    const key = mergeItemKey(item);
+    setChoices(prev => ({ ...prev, [key]: { ...prev[key], [field]: side } }));
+  };
+
+  const chooseAll = (side: MergeSide) => {
+    const next: MergeChoices = {};
+    items.filter(i => i.kind === 'changed').forEach(item => {
+      next[mergeItemKey(item)] = Object.fromEntries(item.changes.map(c => [c.field, side]));
+    });
+    setChoices(next);
+  };
+
+  const tab = (key: WizardFilter, label: string) => (
+    <button key={key} onClick={() => setFilter(key)} className={`px-4 py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest transition-all ${filter === key ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white'}`}>
+      {label} ({counts[key]})
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-[#0d0d0d] border border-white/10 rounded-[32px] overflow-hidden animate-in">
+        <div className="p-8 border-b border-white/5 flex justify-between items-start gap-6">
+          <div className="flex flex-col space-y-2">
+            <h2 className="text-xl font-bold text-white">Re-import Inventory</h2>
+            <span className="text-[9px] font-mono uppercase tracking-widest text-white/30">{fileName} // {counts.unchanged} unchanged</span>
+          </div>
+          <button onClick={onClose} className="text-[10px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Close</button>
+        </div>
+
+        <div className="px-8 py-4 flex flex-wrap justify-between items-center gap-4 border-b border-white/5">
+          <div className="flex gap-2">
+            {tab('changed', 'Changed')}
+            {tab('new', 'New')}
+            {tab('removed', 'Missing From File')}
+          </div>
+          {filter === 'changed' && counts.changed > 0 && (
+            <div className="flex gap-2">
+              <button onClick={() => chooseAll('local')} className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/50 hover:text-white transition-all">Keep All Local</button>
+              <button onClick={() => chooseAll('imported')} className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/50 hover:text-white transition-all">Take All Imported</button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-4">
+          {visible.length === 0 && <p className="text-center text-[10px] uppercase tracking-widest text-white/20 py-12">Nothing here</p>}
+          {visible.map(item => {
+            const product = (item.local || item.imported)!;
+            const itemChoices = choices[mergeItemKey(item)] || {};
+            return (
+              <div key={mergeItemKey(item)} className="p-5 rounded-2xl border border-white/5 bg-white/[0.02] space-y-4">
+                <div className="flex items-center gap-4">
+                  <img src={product.thumbnailUrl || product.imageUrl} alt="" className="w-10 h-10 rounded-lg object-cover bg-black/20 shrink-0" />
+                  <div className="flex-1 min-w-0 flex flex-col">
+                    <span className="text-xs text-white/80 truncate">{product.name}</span>
+                    <span className="text-[8px] font-mono uppercase tracking-widest text-white/30">
+                      {product.handleId}{item.local?.visionIds?.length ? ` // ${item.local.visionIds.length} visions kept` : ''}
+                    </span>
+                  </div>
+                </div>
+                {item.changes.map(change => {
+                  const side = itemChoices[change.field] || change.defaultSide;
+                  return (
+                    <div key={change.field} className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <span className="text-[9px] font-bold uppercase tracking-widest text-white/40">{FIELD_LABELS[change.field]}</span>
+                        <div className="flex p-0.5 bg-black/40 rounded-lg border border-white/10">
+                          {(['local', 'imported'] as MergeSide[]).map(s => (
+                            <button key={s} onClick={() => choose(item, change.field, s)} className={`px-3 py-1 rounded-md text-[8px] font-bold uppercase tracking-widest transition-all ${side === s ? (s === 'local' ? 'bg-indigo-600 text-white' : 'bg-orange-600 text-white') : 'text-white/40 hover:text-white'}`}>
+                              {s === 'local' ? 'Keep Local' : 'Use Imported'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-xl bg-black/40 border border-white/5 text-[10px] leading-relaxed break-words">
+                        {diffWords(change.local, change.imported).map((seg, i) => (
+                          <span key={i} className={seg.type === 'added' ? 'bg-emerald-500/20 text-emerald-300' : seg.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : 'text-white/40'}>{seg.text}</span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-8 border-t border-white/5 space-y-4">
+          {counts.removed > 0 && (
+            <label className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-white/40 cursor-pointer">
+              <input type="checkbox" checked={removeMissing} onChange={(e) => setRemoveMissing(e.target.checked)} className="accent-red-500" />
+              Remove {counts.removed} product{counts.removed === 1 ? '' : 's'} missing from the file (their visions stay in the archive)
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={() => onApply(choices, removeMissing)} className="py-4 rounded-2xl bg-orange-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-orange-500 transition-all">Apply Import</button>
+            <button onClick={onClose} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Cancel</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,59 +1,72 @@
 
 import React, { useRef, useEffect, useState } from 'react';
+import { AutoMaskTarget } from '../types';
+import { AUTO_MASK_TARGETS } from '../services/geminiService';
+import { DEFAULT_MASK_FEATHER, MaskLayer, MaskRegionLayer, MaskStroke, MaskTool, exportMask, paintMaskLayers } from '../services/maskRaster';
 
 interface InpaintCanvasProps {
   imageUrl: string;
   isEditMode: boolean;
   brushSize: number;
+  onBrushSizeChange: (size: number) => void;
   onMaskChange: (maskBase64: string | null) => void;
+  onAutoMask: (target: AutoMaskTarget) => Promise<MaskRegionLayer | null>;
 }
 
-export const InpaintCanvas: React.FC<InpaintCanvasProps> = ({ 
-  imageUrl, 
-  isEditMode, 
-  brushSize, 
-  onMaskChange 
+const OVERLAY_COLOR = 'rgb(249, 115, 22)';
+
+export const InpaintCanvas: React.FC<InpaintCanvasProps> = ({
+  imageUrl,
+  isEditMode,
+  brushSize,
+  onBrushSizeChange,
+  onMaskChange,
+  onAutoMask
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  const contextRef = useRef<CanvasRenderingContext2D | null>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
+  const activeStrokeRef = useRef<MaskStroke | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-
-  // Synchronize canvas dimensions with the actual rendered image
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [feather, setFeather] = useState(DEFAULT_MASK_FEATHER);
+  const [layers, setLayers] = useState<MaskLayer[]>([]);
+  const [redoStack, setRedoStack] = useState<MaskLayer[]>([]);
+  const [isAutoMenuOpen, setIsAutoMenuOpen] = useState(false);
+  const [detectingTarget, setDetectingTarget] = useState<AutoMaskTarget | null>(null);
+  const [displayScale, setDisplayScale] = useState(1);
+
+  // Position the overlay over the rendered image. Only the CSS box changes here;
+  // the backing store stays at natural resolution so the mask survives resizes.
   const syncCanvasDimensions = () => {
     const canvas = canvasRef.current;
     const img = imageRef.current;
-    if (!canvas || !img || !img.complete) return;
+    if (!canvas || !img || !img.complete || !img.naturalWidth) return;
 
-    // Get the displayed size of the image within its object-contain container
-    const rect = img.getBoundingClientRect();
     const containerRect = containerRef.current?.getBoundingClientRect();
-
     if (!containerRect) return;
 
-    // Set canvas to match the image's bounding box
-    canvas.width = rect.width;
-    canvas.height = rect.height;
-    canvas.style.top = `${rect.top - containerRect.top}px`;
-    canvas.style.left = `${rect.left - containerRect.left}px`;
-    canvas.style.width = `${rect.width}px`;
-    canvas.style.height = `${rect.height}px`;
-
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.lineCap = 'round';
-      ctx.strokeStyle = 'white';
-      ctx.lineWidth = brushSize;
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      contextRef.current = ctx;
+    // object-contain letterboxes the image inside the element box
+    const boxRect = img.getBoundingClientRect();
+    const scale = Math.min(boxRect.width / img.naturalWidth, boxRect.height / img.naturalHeight);
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+
+    if (canvas.width !== img.naturalWidth || canvas.height !== img.naturalHeight) {
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
     }
+    canvas.style.left = `${boxRect.left - containerRect.left + (boxRect.width - width) / 2}px`;
+    canvas.style.top = `${boxRect.top - containerRect.top + (boxRect.height - height) / 2}px`;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    setDisplayScale(scale);
   };
 
   useEffect(() => {
     setIsLoading(true);
+    setLayers([]);
+    setRedoStack([]);
     // When image changes or loads, reset canvas
     const img = imageRef.current;
     if (img) {
@@ -74,61 +87,102 @@ export const InpaintCanvas: React.FC<InpaintCanvasProps> = ({
   }, [imageUrl]);
 
   useEffect(() => {
-    if (contextRef.current) {
-      contextRef.current.lineWidth = brushSize;
-    }
-  }, [brushSize]);
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || isLoading) return;
+    paintMaskLayers(ctx, layers, OVERLAY_COLOR);
+    onMaskChange(layers.length ? exportMask(layers, canvas.width, canvas.height, feather) : null);
+  }, [layers, feather, isLoading]);
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+  useEffect(() => {
     if (!isEditMode) return;
-    const { offsetX, offsetY } = getCoordinates(e);
-    contextRef.current?.beginPath();
-    contextRef.current?.moveTo(offsetX, offsetY);
-    setIsDrawing(true);
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isEditMode, layers, redoStack]);
+
+  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return { x: 0, y: 0 };
+    const rect = canvas.getBoundingClientRect();
+    const point = 'touches' in e ? e.touches[0] : e.nativeEvent;
+    return {
+      x: (point.clientX - rect.left) * (canvas.width / rect.width),
+      y: (point.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+    if (!isEditMode || isLoading) return;
+    activeStrokeRef.current = { kind: 'stroke', tool, size: brushSize / displayScale, points: [getCoordinates(e)] };
   };
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !isEditMode) return;
-    const { offsetX, offsetY } = getCoordinates(e);
-    contextRef.current?.lineTo(offsetX, offsetY);
-    contextRef.current?.stroke();
+    const stroke = activeStrokeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!stroke || !ctx || !isEditMode) return;
+    const prev = stroke.points[stroke.points.length - 1];
+    const next = getCoordinates(e);
+    stroke.points.push(next);
+
+    // Draw just the new segment; the full history is repainted when the stroke ends
+    ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = stroke.size;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(prev.x, prev.y);
+    ctx.lineTo(next.x, next.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
   };
 
   const stopDrawing = () => {
-    if (!isDrawing) return;
-    contextRef.current?.closePath();
-    setIsDrawing(false);
-    
-    const maskBase64 = canvasRef.current?.toDataURL('image/png').split(',')[1];
-    onMaskChange(maskBase64 || null);
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    activeStrokeRef.current = null;
+    pushLayer(stroke);
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { offsetX: 0, offsetY: 0 };
-    const rect = canvas.getBoundingClientRect();
-    
-    let x, y;
-    if ('touches' in e) {
-      x = e.touches[0].clientX - rect.left;
-      y = e.touches[0].clientY - rect.top;
-    } else {
-      x = e.nativeEvent.clientX - rect.left;
-      y = e.nativeEvent.clientY - rect.top;
-    }
-    return { offsetX: x, offsetY: y };
+  const pushLayer = (layer: MaskLayer) => {
+    setLayers(prev => [...prev, layer]);
+    setRedoStack([]);
+  };
+
+  const undo = () => {
+    if (!layers.length) return;
+    setRedoStack(prev => [...prev, layers[layers.length - 1]]);
+    setLayers(layers.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (!redoStack.length) return;
+    setLayers(prev => [...prev, redoStack[redoStack.length - 1]]);
+    setRedoStack(redoStack.slice(0, -1));
   };
 
   const clearMask = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const ctx = contextRef.current;
-    if (ctx && canvasRef.current) {
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-      onMaskChange(null);
-    }
+    if (!layers.length) return;
+    setLayers([]);
+    setRedoStack([]);
   };
 
+  const applyAutoMask = async (target: AutoMaskTarget) => {
+    setIsAutoMenuOpen(false);
+    setDetectingTarget(target);
+    const layer = await onAutoMask(target);
+    setDetectingTarget(null);
+    if (layer) pushLayer({ ...layer, tool });
+  };
+
+  const toolButton = (active: boolean) => `px-3 py-2 rounded-lg text-[8px] font-bold uppercase tracking-widest transition-all ${active ? 'bg-indigo-600 text-white' : 'text-white/50 hover:text-white'}`;
+
   return (
     <div ref={containerRef} className="relative w-full h-full cursor-crosshair flex items-center justify-center overflow-hidden">
       {isLoading && (
@@ -136,11 +190,11 @@ export const InpaintCanvas: React.FC<InpaintCanvasProps> = ({
           <div className="w-8 h-8 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
         </div>
       )}
-      <img 
+      <img
         ref={imageRef}
-        src={imageUrl} 
-        className="w-full h-full object-contain pointer-events-none select-none" 
-        alt="Edit Target" 
+        src={imageUrl}
+        className="w-full h-full object-contain pointer-events-none select-none"
+        alt="Edit Target"
       />
       <canvas
         ref={canvasRef}
@@ -151,21 +205,49 @@ export const InpaintCanvas: React.FC<InpaintCanvasProps> = ({
         onTouchStart={startDrawing}
         onTouchMove={draw}
         onTouchEnd={stopDrawing}
-        className={`absolute transition-opacity duration-300 ${isEditMode ? 'opacity-50 mix-blend-screen' : 'opacity-0 pointer-events-none'}`}
+        style={{ filter: feather > 0 ? `blur(${feather * displayScale}px)` : undefined }}
+        className={`absolute transition-opacity duration-300 ${isEditMode ? 'opacity-40' : 'opacity-0 pointer-events-none'}`}
       />
-      
+
       {isEditMode && !isLoading && (
-        <div className="absolute bottom-4 left-4 flex gap-4 z-50">
-          <button 
+        <div className="absolute bottom-4 left-4 right-4 flex flex-wrap gap-3 z-50">
+          <div className="flex p-1 bg-black/70 rounded-xl border border-white/10 backdrop-blur-md">
+            <button onClick={() => setTool('brush')} className={toolButton(tool === 'brush')}>Brush</button>
+            <button onClick={() => setTool('eraser')} className={toolButton(tool === 'eraser')}>Eraser</button>
+          </div>
+          <div className="flex p-1 bg-black/70 rounded-xl border border-white/10 backdrop-blur-md">
+            <button onClick={undo} disabled={!layers.length} className={`${toolButton(false)} disabled:opacity-30`}>Undo</button>
+            <button onClick={redo} disabled={!redoStack.length} className={`${toolButton(false)} disabled:opacity-30`}>Redo</button>
+          </div>
+          <div className="relative">
+            <button onClick={() => setIsAutoMenuOpen(!isAutoMenuOpen)} disabled={!!detectingTarget} className="h-full px-4 bg-black/70 rounded-xl border border-white/10 backdrop-blur-md text-[8px] font-bold uppercase tracking-widest text-white/70 hover:text-white disabled:opacity-60 transition-all">
+              {detectingTarget ? `Locating ${AUTO_MASK_TARGETS[detectingTarget].label}...` : 'Auto Mask'}
+            </button>
+            {isAutoMenuOpen && (
+              <div className="absolute bottom-full mb-2 left-0 w-44 p-1 bg-[#0d0d0d] border border-white/10 rounded-xl shadow-2xl">
+                {(Object.keys(AUTO_MASK_TARGETS) as AutoMaskTarget[]).map(target => (
+                  <button key={target} onClick={() => applyAutoMask(target)} className="w-full text-left px-3 py-2 rounded-lg text-[9px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/5 transition-all">
+                    {AUTO_MASK_TARGETS[target].label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <label className="flex items-center gap-2 px-3 bg-black/70 rounded-xl border border-white/10 backdrop-blur-md text-[8px] font-bold uppercase tracking-widest text-white/50">
+            Size
+            <input type="range" min="5" max="120" value={brushSize} onChange={(e) => onBrushSizeChange(parseInt(e.target.value, 10))} className="w-20 accent-orange-500" />
+          </label>
+          <label className="flex items-center gap-2 px-3 bg-black/70 rounded-xl border border-white/10 backdrop-blur-md text-[8px] font-bold uppercase tracking-widest text-white/50">
+            Feather
+            <input type="range" min="0" max="48" value={feather} onChange={(e) => setFeather(parseInt(e.target.value, 10))} className="w-20 accent-orange-500" />
+          </label>
+          <button
             onClick={clearMask}
             className="p-3 bg-red-600/80 hover:bg-red-600 text-white rounded-xl shadow-2xl transition-all flex items-center space-x-2 backdrop-blur-md border border-red-500/20"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
             <span className="text-[9px] font-bold uppercase tracking-widest">Clear Mask</span>
           </button>
-          <div className="p-3 bg-indigo-600/80 text-white rounded-xl shadow-2xl backdrop-blur-md border border-indigo-500/20 flex items-center">
-            <span className="text-[9px] font-bold uppercase tracking-widest">Draw to "FIX" area</span>
-          </div>
         </div>
       )}
     </div>
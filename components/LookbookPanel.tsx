@@ -0,0 +1,46 @@
+import React from 'react';
+import { GeneratedArtifact, Lookbook } from '../types';
+
+interface LookbookPanelProps {
+  lookbook: Lookbook;
+  shots: GeneratedArtifact[];
+  pendingCount: number;
+  onOpenShot: (shot: GeneratedArtifact) => void;
+  onClose: () => void;
+}
+
+export const LookbookPanel: React.FC<LookbookPanelProps> = ({ lookbook, shots, pendingCount, onOpenShot, onClose }) => (
+  <div className="glass-card p-8 rounded-[40px] space-y-6 animate-in">
+    <div className="flex justify-between items-start gap-6">
+      <div className="flex flex-col space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-[0.2em] text-orange-400">Lookbook</label>
+        <span className="text-[8px] font-mono uppercase tracking-widest text-white/30">
+          {lookbook.productName || lookbook.handleId || 'Studio pattern'} // {shots.length} shot{shots.length === 1 ? '' : 's'}{pendingCount ? ` // ${pendingCount} rendering` : ''}
+        </span>
+      </div>
+      <button onClick={onClose} className="text-[10px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Close</button>
+    </div>
+
+    {lookbook.identity && (
+      <p className="text-[10px] text-white/50 leading-relaxed"><span className="font-bold uppercase tracking-widest text-white/30 text-[8px]">Model Identity // </span>{lookbook.identity}</p>
+    )}
+
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {shots.map(shot => (
+        <button key={shot.id} onClick={() => onOpenShot(shot)} className="group text-left space-y-2">
+          <div className="aspect-[3/4] rounded-2xl overflow-hidden border border-white/10 group-hover:border-orange-500/40 transition-all relative">
+            <img src={shot.imageUrl} alt={shot.params?.modelPose || 'Shot'} className="w-full h-full object-cover" />
+            {shot.id === lookbook.anchorVisionId && <span className="absolute top-2 left-2 px-2 py-1 rounded-md bg-black/70 text-[7px] font-bold uppercase tracking-widest text-orange-300">Anchor</span>}
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-[8px] font-bold uppercase tracking-widest text-white/50">{shot.params?.modelPose}</span>
+            {shot.qa && <span className={`text-[8px] font-bold uppercase tracking-widest ${shot.qa.passed ? 'text-emerald-400/70' : 'text-red-400/80'}`}>QA {shot.qa.passed ? '✓' : '✗'}</span>}
+          </div>
+        </button>
+      ))}
+      {Array.from({ length: pendingCount }, (_, i) => (
+        <div key={`pending-${i}`} className="aspect-[3/4] rounded-2xl border border-dashed border-white/10 bg-white/[0.02] animate-pulse"></div>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { StudioPreset } from '../types';
+
+interface PresetPanelProps {
+  presets: StudioPreset[];
+  hasPattern: boolean;
+  onApply: (preset: StudioPreset) => void;
+  onSave: (name: string, includePattern: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({
+  presets,
+  hasPattern,
+  onApply,
+  onSave,
+  onDelete
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [includePattern, setIncludePattern] = useState(false);
+
+  const selected = presets.find(p => p.id === selectedId);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim(), includePattern && hasPattern);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-white/5">
+      <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Recipe Presets</label>
+      {presets.length > 0 && (
+        <div className="flex gap-2">
+          <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+            <option value="">Choose preset...</option>
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={() => selected && onApply(selected)} disabled={!selected} className="px-4 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white transition-all">Load</button>
+          <button onClick={() => { if (selected) { onDelete(selected.id); setSelectedId(''); } }} disabled={!selected} className="px-3 bg-white/5 border border-white/10 disabled:opacity-50 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/40 hover:text-red-400 transition-all">Delete</button>
+        </div>
+      )}
+      {selected && (
+        <p className="text-[8px] font-mono uppercase tracking-widest text-white/30">
+          {selected.params.modelPose} // {selected.params.locationStyle} // {selected.params.bodyShape} // {selected.params.aspectRatio}{selected.params.patternId ? ' // with pattern' : ''}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="e.g. Spring catalog – seated, outdoor"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-orange-500/30"
+        />
+        <button onClick={save} disabled={!name.trim()} className="px-4 bg-white/5 border border-white/10 disabled:opacity-50 rounded-xl text-[8px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 transition-all">Save</button>
+      </div>
+      {hasPattern && (
+        <label className="flex items-center gap-2 text-[8px] font-bold uppercase tracking-widest text-white/30 cursor-pointer">
+          <input type="checkbox" checked={includePattern} onChange={(e) => setIncludePattern(e.target.checked)} className="accent-orange-500" />
+          Include current pattern reference
+        </label>
+      )}
+    </div>
+  );
+};
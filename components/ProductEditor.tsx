@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { BrandRuleProfile, CopyTone, EditableProductFields, Product, SavedBlueprint } from '../types';
+import { diffWords } from '../services/textDiff';
+import { latestBrandProfiles, resolveBrandProfile } from '../services/brandRules';
+
+interface ProductEditorProps {
+  product: Product;
+  blueprints: SavedBlueprint[];
+  brandHistory: BrandRuleProfile[];
+  onSave: (product: Product) => void;
+  onClose: () => void;
+  onGenerateDescription: (product: Product, blueprintId: string, tone: CopyTone) => Promise<string | null>;
+}
+
+const FIELDS: { key: keyof EditableProductFields; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'price', label: 'Price' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'size', label: 'Size' },
+  { key: 'collection', label: 'Collection' }
+];
+
+const TONES: CopyTone[] = ["Poetic", "Minimal", "Playful", "Technical"];
+
+const FieldDiff: React.FC<{ original: string; current: string; onRevert: () => void }> = ({ original, current, onRevert }) => {
+  if (original === current) return null;
+  return (
+    <div className="mt-2 p-3 rounded-xl bg-black/40 border border-white/5 space-y-2">
+      <div className="text-[10px] leading-relaxed">
+        {diffWords(original, current).map((seg, i) => (
+          <span key={i} className={seg.type === 'added' ? 'bg-emerald-500/20 text-emerald-300' : seg.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : 'text-white/40'}>{seg.text}</span>
+        ))}
+      </div>
+      <button onClick={onRevert} className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Revert to CSV</button>
+    </div>
+  );
+};
+
+export const ProductEditor: React.FC<ProductEditorProps> = ({
+  product,
+  blueprints,
+  brandHistory,
+  onSave,
+  onClose,
+  onGenerateDescription
+}) => {
+  const [draft, setDraft] = useState<Product>(product);
+  const [tone, setTone] = useState<CopyTone>(() => resolveBrandProfile(product, brandHistory).copyTone);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => { setDraft(product); }, [product]);
+
+  const brandProfiles = latestBrandProfiles(brandHistory);
+  const collectionBrand = resolveBrandProfile({ ...draft, brandProfileId: undefined }, brandHistory);
+
+  const changeBrandProfile = (id: string) => {
+    const next = { ...draft, brandProfileId: id || undefined };
+    setDraft(next);
+    setTone(resolveBrandProfile(next, brandHistory).copyTone);
+  };
+
+  const original = product.importedValues;
+  const blueprintId = draft.blueprintId || blueprints[0]?.id || '';
+  const isDirty = FIELDS.some(({ key }) => (draft[key] || '') !== (product[key] || '')) || draft.description !== product.description || draft.blueprintId !== product.blueprintId || draft.brandProfileId !== product.brandProfileId;
+
+  const generate = async () => {
+    setIsGenerating(true);
+    const text = await onGenerateDescription(draft, blueprintId, tone);
+    setIsGenerating(false);
+    if (text) setDraft(prev => ({ ...prev, description: text.trim() }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-xl h-full bg-[#0d0d0d] border-l border-white/10 overflow-y-auto p-10 space-y-8 animate-in">
+        <div className="flex justify-between items-start gap-6">
+          <div className="flex flex-col space-y-2">
+            <h2 className="text-xl font-bold text-white">Product Editor</h2>
+            <span className="text-[9px] font-mono uppercase tracking-widest text-white/30">{product.handleId}</span>
+          </div>
+          <button onClick={onClose} className="text-[10px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Close</button>
+        </div>
+
+        {product.imageUrl && <img src={product.thumbnailUrl || product.imageUrl} alt={product.name} className="w-32 h-32 rounded-2xl object-cover border border-white/10" />}
+
+        <div className="space-y-5">
+          {FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">{label}</label>
+              <input
+                value={draft[key] || ''}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-xs text-white outline-none focus:border-orange-500/30"
+              />
+              {original && <FieldDiff original={original[key] || ''} current={draft[key] || ''} onRevert={() => setDraft({ ...draft, [key]: original[key] || '' })} />}
+            </div>
+          ))}
+        </div>
+
+        {product.variants && product.variants.length > 1 && (
+          <div className="space-y-2">
+            <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block">Variants ({product.variants.length})</label>
+            <div className="rounded-xl border border-white/5 divide-y divide-white/5">
+              {product.variants.map((v, i) => (
+                <div key={i} className="grid grid-cols-4 gap-2 px-4 py-2 text-[10px] font-mono text-white/60">
+                  <span>{Object.values(v.options).join(' / ') || v.size || '—'}</span>
+                  <span className="truncate">{v.sku || '—'}</span>
+                  <span>{v.price}</span>
+                  <span className="text-right">{v.inventory ? `${v.inventory} in stock` : ''}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-[8px] text-white/30 leading-relaxed">Variant prices and SKUs are exported exactly as imported.</p>
+          </div>
+        )}
+
+        <div className="space-y-4 pt-6 border-t border-white/5">
+          <div>
+            <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Brand Rules</label>
+            <select value={draft.brandProfileId || ''} onChange={(e) => changeBrandProfile(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+              <option value="">By Collection ({collectionBrand.name})</option>
+              {brandProfiles.map(p => <option key={p.id} value={p.id}>{p.name} (v{p.version})</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Fit Blueprint</label>
+              <select value={blueprintId} onChange={(e) => setDraft({ ...draft, blueprintId: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                {blueprints.map(bp => <option key={bp.id} value={bp.id}>{bp.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40 block mb-2">Copy Tone</label>
+              <select value={tone} onChange={(e) => setTone(e.target.value as CopyTone)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-[10px] text-white/70 appearance-none outline-none font-bold uppercase tracking-widest focus:border-orange-500/30">
+                {TONES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-[9px] font-bold uppercase tracking-widest text-white/40">Description</label>
+              <button onClick={generate} disabled={isGenerating} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white transition-all">
+                {isGenerating ? 'Writing...' : 'Generate Description'}
+              </button>
+            </div>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className="w-full bg-black/60 border border-white/10 rounded-2xl px-5 py-4 text-xs text-white outline-none resize-none h-40 leading-relaxed focus:border-orange-500/30"
+            />
+            {original && <FieldDiff original={original.description} current={draft.description} onRevert={() => setDraft({ ...draft, description: original.description })} />}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => onSave(draft)} disabled={!isDirty || !draft.name.trim()} className="py-4 rounded-2xl bg-orange-600 text-white font-bold text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-orange-500 disabled:opacity-50 transition-all">Save Changes</button>
+          <button onClick={onClose} className="py-4 rounded-2xl bg-white/5 border border-white/10 text-white/40 font-bold text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+
+interface ReferencePickerProps {
+  imageUrls: string[];
+  primaryUrl?: string;
+  selectedUrls: string[];
+  loadingUrl: string | null;
+  onToggle: (url: string) => void;
+}
+
+export const ReferencePicker: React.FC<ReferencePickerProps> = ({
+  imageUrls,
+  primaryUrl,
+  selectedUrls,
+  loadingUrl,
+  onToggle
+}) => {
+  if (imageUrls.length < 2) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[9px] font-bold uppercase tracking-widest text-white/40">Render References</label>
+        <span className="text-[8px] font-mono uppercase tracking-widest text-white/30">{selectedUrls.length + 1} of {imageUrls.length}</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {imageUrls.map(url => {
+          const isPrimary = url === primaryUrl;
+          const isSelected = isPrimary || selectedUrls.includes(url);
+          return (
+            <button
+              key={url}
+              onClick={() => !isPrimary && onToggle(url)}
+              disabled={isPrimary || loadingUrl === url}
+              title={isPrimary ? 'Primary pattern reference' : isSelected ? 'Remove from render' : 'Add to render'}
+              className={`relative aspect-square rounded-xl overflow-hidden border-2 transition-all ${isPrimary ? 'border-orange-500' : isSelected ? 'border-indigo-500' : 'border-white/10 opacity-50 hover:opacity-100'}`}
+            >
+              <img src={url} alt="" className="w-full h-full object-cover" />
+              {isPrimary && <span className="absolute bottom-0 inset-x-0 bg-orange-600/90 text-[7px] font-bold uppercase tracking-widest text-white py-0.5">Primary</span>}
+              {loadingUrl === url && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+                  <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[8px] text-white/30 leading-relaxed">Add back views or fabric close-ups to guide construction and print detail.</p>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { SceneOption } from '../types';
+
+interface SceneOptionPickerProps {
+  label: string;
+  options: SceneOption[];
+  value: string;
+  onSelect: (name: string) => void;
+  onDelete: (name: string) => void;
+  // When given, a small form lets the user define a new option
+  onAdd?: (option: SceneOption) => void;
+  addPlaceholder?: string;
+}
+
+export const SceneOptionPicker: React.FC<SceneOptionPickerProps> = ({
+  label,
+  options,
+  value,
+  onSelect,
+  onDelete,
+  onAdd,
+  addPlaceholder
+}) => {
+  const [draft, setDraft] = useState<{ name: string; prompt: string } | null>(null);
+
+  const nameTaken = !!draft && options.some(o => o.name.toLowerCase() === draft.name.trim().toLowerCase());
+
+  const save = () => {
+    if (!draft || !onAdd || !draft.name.trim() || !draft.prompt.trim() || nameTaken) return;
+    // The meta-prompt adds its own full stop
+    onAdd({ name: draft.name.trim(), prompt: draft.prompt.trim().replace(/\.+$/, '') });
+    onSelect(draft.name.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-[9px] font-bold uppercase tracking-widest text-white/40">{label}</label>
+        {onAdd && !draft && (
+          <button onClick={() => setDraft({ name: '', prompt: '' })} className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">+ Add</button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <span key={option.name} className="relative group/option">
+            <button
+              onClick={() => onSelect(option.name)}
+              title={option.prompt}
+              className={`px-4 py-2 rounded-full text-[8px] font-bold uppercase tracking-widest transition-all border ${value === option.name ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white/10 hover:text-white'} ${option.isBuiltIn ? '' : 'pr-7'}`}
+            >
+              {option.name}
+            </button>
+            {!option.isBuiltIn && (
+              <button onClick={() => onDelete(option.name)} title="Delete" className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-white/30 hover:text-red-400 transition-colors">×</button>
+            )}
+          </span>
+        ))}
+      </div>
+      {draft && (
+        <div className="space-y-2 p-4 rounded-2xl border border-white/10 bg-white/[0.02]">
+          <input
+            placeholder="Name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-orange-500/30"
+          />
+          <textarea
+            placeholder={addPlaceholder}
+            value={draft.prompt}
+            onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+            rows={2}
+            className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-orange-500/30 resize-none"
+          />
+          {nameTaken && <p className="text-[8px] text-red-400 uppercase tracking-widest">That name is already in use</p>}
+          <div className="flex gap-2">
+            <button onClick={save} disabled={!draft.name.trim() || !draft.prompt.trim() || nameTaken} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white transition-all">Save</button>
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/40 hover:text-white transition-all">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
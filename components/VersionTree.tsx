@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { GeneratedArtifact } from '../types';
+
+interface VersionTreeProps {
+  versions: GeneratedArtifact[];
+  currentId: string;
+  compareId: string | null;
+  onBranch: (version: GeneratedArtifact) => void;
+  onRevert: (version: GeneratedArtifact) => void;
+  onCompare: (version: GeneratedArtifact | null) => void;
+}
+
+interface TreeRow {
+  version: GeneratedArtifact;
+  depth: number;
+}
+
+/**
+ * Flattens the parent links into depth-first rows, oldest branch first.
+ * Versions whose parent is missing (deleted or never stored) become roots.
+ */
+const flattenTree = (versions: GeneratedArtifact[]): TreeRow[] => {
+  const ids = new Set(versions.map(v => v.id));
+  const children = new Map<string, GeneratedArtifact[]>();
+  const roots: GeneratedArtifact[] = [];
+  [...versions].sort((a, b) => a.timestamp - b.timestamp).forEach(v => {
+    if (v.parentId && ids.has(v.parentId)) {
+      children.set(v.parentId, [...(children.get(v.parentId) || []), v]);
+    } else roots.push(v);
+  });
+
+  const rows: TreeRow[] = [];
+  const walk = (v: GeneratedArtifact, depth: number) => {
+    rows.push({ version: v, depth });
+    (children.get(v.id) || []).forEach(child => walk(child, depth + 1));
+  };
+  roots.forEach(r => walk(r, 0));
+  return rows;
+};
+
+export const VersionTree: React.FC<VersionTreeProps> = ({
+  versions,
+  currentId,
+  compareId,
+  onBranch,
+  onRevert,
+  onCompare
+}) => {
+  const rows = useMemo(() => flattenTree(versions), [versions]);
+
+  return (
+    <div className="glass-card rounded-[32px] p-8 space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold text-white/20 uppercase tracking-[0.2em]">Version History</span>
+        <span className="text-[8px] font-mono uppercase tracking-widest text-white/30">{versions.length} versions</span>
+      </div>
+      <div className="max-h-80 overflow-y-auto space-y-2 pr-2">
+        {rows.map(({ version, depth }) => {
+          const isCurrent = version.id === currentId;
+          const isCompared = version.id === compareId;
+          return (
+            <div
+              key={version.id}
+              style={{ marginLeft: depth * 20 }}
+              className={`flex items-center gap-4 p-2 rounded-2xl border transition-all ${isCurrent ? 'border-orange-500/40 bg-orange-500/5' : isCompared ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-white/5 bg-white/[0.02]'}`}
+            >
+              <img src={version.imageUrl} alt="" className="w-12 h-16 rounded-lg object-cover bg-black/20 shrink-0" />
+              <div className="flex-1 min-w-0 flex flex-col gap-1">
+                <span className="text-[10px] text-white/70 line-clamp-1">{version.directive || (version.parentId ? 'Masked refinement' : 'Original synthesis')}</span>
+                <span className="text-[8px] font-mono uppercase tracking-widest text-white/30">
+                  {new Date(version.timestamp).toLocaleString()}{version.maskImage ? ' // masked' : ''}{version.params ? ` // ${version.params.modelPose}` : ''}
+                </span>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {isCurrent ? (
+                  <span className="text-[8px] font-bold uppercase tracking-widest text-orange-400 px-2">Current</span>
+                ) : (
+                  <>
+                    <button onClick={() => onBranch(version)} className="px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/50 hover:text-white transition-all">Branch</button>
+                    <button onClick={() => onRevert(version)} className="px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-[8px] font-bold uppercase tracking-widest text-white/50 hover:text-white transition-all">Revert</button>
+                    <button onClick={() => onCompare(isCompared ? null : version)} className={`px-2 py-1 border rounded-lg text-[8px] font-bold uppercase tracking-widest transition-all ${isCompared ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-white/50 hover:text-white'}`}>Compare</button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedArtifact, VisionReview } from '../types';
+import { VisionReviewControls } from './VisionReviewControls';
+
+interface VisionCompareProps {
+  visions: GeneratedArtifact[];
+  onReview: (id: string, patch: Partial<VisionReview>) => void;
+  onPickWinner: (id: string) => void;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+
+/**
+ * Shows 2–4 visions side by side. Zoom and pan are shared, so every pane
+ * always shows the same region of its image.
+ */
+export const VisionCompare: React.FC<VisionCompareProps> = ({ visions, onReview, onPickWinner, onClose }) => {
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number } | null>(null);
+  const panesRef = useRef<HTMLDivElement>(null);
+
+  const zoomBy = (factor: number) => setView(prev => {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+    return zoom === MIN_ZOOM ? { zoom, x: 0, y: 0 } : { zoom, x: prev.x * zoom / prev.zoom, y: prev.y * zoom / prev.zoom };
+  });
+
+  // React registers wheel listeners as passive, so the page behind would scroll too
+  useEffect(() => {
+    const el = panesRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!(e.target as Element).closest('[data-zoom-pane]')) return;
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const startDrag = (e: React.MouseEvent) => {
+    if (view.zoom === MIN_ZOOM) return;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, x: view.x, y: view.y };
+  };
+
+  const drag = (e: React.MouseEvent) => {
+    const start = dragRef.current;
+    if (!start) return;
+    setView(prev => ({ ...prev, x: start.x + e.clientX - start.startX, y: start.y + e.clientY - start.startY }));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-7xl max-h-[95vh] flex flex-col bg-[#0d0d0d] border border-white/10 rounded-[32px] overflow-hidden animate-in">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center gap-6">
+          <div className="flex flex-col space-y-1">
+            <h2 className="text-lg font-bold text-white">Compare Visions</h2>
+            <p className="text-[9px] text-white/40 uppercase tracking-widest">Scroll to zoom, drag to pan, double-click to reset</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => zoomBy(1 / 1.5)} className="w-8 h-8 bg-white/5 border border-white/10 rounded-lg text-white/60 hover:text-white transition-all">−</button>
+            <span className="text-[9px] font-mono text-white/50 w-10 text-center">{Math.round(view.zoom * 100)}%</span>
+            <button onClick={() => zoomBy(1.5)} className="w-8 h-8 bg-white/5 border border-white/10 rounded-lg text-white/60 hover:text-white transition-all">+</button>
+            <button onClick={onClose} className="ml-4 text-[10px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Close</button>
+          </div>
+        </div>
+
+        <div ref={panesRef} className={`flex-1 overflow-y-auto p-6 grid gap-4 ${visions.length > 2 ? 'grid-cols-2 xl:grid-cols-4' : 'grid-cols-2'}`}>
+          {visions.map(vision => (
+            <div key={vision.id} className={`rounded-2xl border p-3 space-y-3 transition-all ${vision.review?.verdict === 'approved' ? 'border-emerald-500/40' : vision.review?.verdict === 'rejected' ? 'border-red-500/20 opacity-70' : 'border-white/10'}`}>
+              <div
+                className={`aspect-[3/4] rounded-xl overflow-hidden bg-black select-none ${view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+                data-zoom-pane
+                onMouseDown={startDrag}
+                onMouseMove={drag}
+                onMouseUp={endDrag}
+                onMouseLeave={endDrag}
+                onDoubleClick={() => setView({ zoom: 1, x: 0, y: 0 })}
+              >
+                <img
+                  src={vision.imageUrl}
+                  alt="Vision"
+                  draggable={false}
+                  className="w-full h-full object-cover"
+                  style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+                />
+              </div>
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-[8px] font-mono uppercase tracking-widest text-white/40 line-clamp-1">
+                  {vision.params ? `${vision.params.modelPose} // ${vision.params.locationStyle}` : new Date(vision.timestamp).toLocaleString()}
+                </span>
+                {vision.qa && <span className={`text-[8px] font-bold uppercase tracking-widest ${vision.qa.passed ? 'text-emerald-400/70' : 'text-red-400/80'}`}>QA {vision.qa.passed ? '✓' : '✗'}</span>}
+              </div>
+              <VisionReviewControls review={vision.review} onChange={(patch) => onReview(vision.id, patch)} />
+              <button
+                onClick={() => onPickWinner(vision.id)}
+                className="w-full py-2 bg-orange-600/80 hover:bg-orange-500 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white transition-all"
+              >
+                Pick as Winner
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedArtifact, Product, VisionReview } from '../types';
+import { EMPTY_VISION_QUERY, VisionQuery, VisionSort, VisionStatus, queryVisions, visionFacets, visionTags } from '../services/visionIndex';
+import { VisionReviewControls } from './VisionReviewControls';
+
+interface VisionGalleryProps {
+  visions: GeneratedArtifact[];
+  imageUrls: Record<string, string>;
+  products: Product[];
+  selectedIds: string[];
+  maxCompare: number;
+  isBusy: boolean;
+  onSelectionChange: (ids: string[]) => void;
+  // The ids in the rendered window, overscan included; images outside it can be released
+  onVisibleChange: (ids: string[]) => void;
+  onReview: (id: string, patch: Partial<VisionReview>) => void;
+  onRecall: (vision: GeneratedArtifact) => void;
+  onAddToExport: (vision: GeneratedArtifact) => void;
+  onCompare: () => void;
+  onDelete: (ids: string[]) => void;
+  onDownload: (ids: string[]) => void;
+  onAttach: (ids: string[], handleId: string) => void;
+}
+
+const GAP = 24;
+// Cards have a fixed footer so every row has the same height and can be skipped without measuring
+const CARD_FOOTER_HEIGHT = 176;
+const OVERSCAN_ROWS = 2;
+
+const STATUS_LABELS: Record<VisionStatus, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  unreviewed: 'Unreviewed',
+  qa_failed: 'QA Failed'
+};
+
+const selectClass = "bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[9px] text-white/70 outline-none font-bold uppercase tracking-widest max-w-[180px]";
+
+export const VisionGallery: React.FC<VisionGalleryProps> = ({
+  visions,
+  imageUrls,
+  products,
+  selectedIds,
+  maxCompare,
+  isBusy,
+  onSelectionChange,
+  onVisibleChange,
+  onReview,
+  onRecall,
+  onAddToExport,
+  onCompare,
+  onDelete,
+  onDownload,
+  onAttach
+}) => {
+  const [query, setQuery] = useState<VisionQuery>(EMPTY_VISION_QUERY);
+  const [attachHandle, setAttachHandle] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [viewport, setViewport] = useState({ width: 0, height: 0, scrollTop: 0 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const facets = useMemo(() => visionFacets(visions), [visions]);
+  const results = useMemo(() => queryVisions(visions, query), [visions, query]);
+  const productNames = useMemo(() => new Map(products.map(p => [p.handleId, p.name])), [products]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const measure = () => setViewport(prev => ({ ...prev, width: el.clientWidth, height: el.clientHeight }));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Results change under a scrolled list; start again from the top
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setConfirmDelete(false);
+  }, [query]);
+
+  const columns = viewport.width >= 1024 ? 4 : viewport.width >= 640 ? 3 : 2;
+  const cardWidth = Math.max(0, (viewport.width - GAP * (columns - 1)) / columns);
+  const rowHeight = cardWidth * 4 / 3 + CARD_FOOTER_HEIGHT + GAP;
+  const rowCount = Math.ceil(results.length / columns);
+  const firstRow = rowHeight ? Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - OVERSCAN_ROWS) : 0;
+  const lastRow = rowHeight ? Math.min(rowCount, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + OVERSCAN_ROWS) : 0;
+  const visible = results.slice(firstRow * columns, lastRow * columns);
+  const visibleKey = visible.map(v => v.id).join(',');
+
+  useEffect(() => {
+    onVisibleChange(visible.filter(v => !v.imageUrl).map(v => v.id));
+  }, [visibleKey]);
+
+  const setFilter = <K extends keyof VisionQuery>(key: K, value: VisionQuery[K]) => setQuery(prev => ({ ...prev, [key]: value }));
+
+  const toggleSelected = (id: string) =>
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+
+  const allShownSelected = results.length > 0 && results.every(v => selectedIds.includes(v.id));
+  const isFiltered = JSON.stringify(query) !== JSON.stringify({ ...EMPTY_VISION_QUERY, sort: query.sort });
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card p-6 rounded-[32px] space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            placeholder="Search prompts, directives and tags..."
+            value={query.text}
+            onChange={(e) => setFilter('text', e.target.value)}
+            className="flex-1 min-w-[220px] bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-xs text-white placeholder:text-white/20 outline-none focus:border-orange-500/30"
+          />
+          <select value={query.sort} onChange={(e) => setFilter('sort', e.target.value as VisionSort)} className={selectClass}>
+            <option value="newest">Newest</option>
+            <option value="oldest">Oldest</option>
+            <option value="rating">Top Rated</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={query.handleId} onChange={(e) => setFilter('handleId', e.target.value)} className={selectClass}>
+            <option value="">All Products</option>
+            {facets.handleIds.map(h => <option key={h} value={h}>{productNames.get(h) || h}</option>)}
+          </select>
+          <select value={query.blueprint} onChange={(e) => setFilter('blueprint', e.target.value)} className={selectClass}>
+            <option value="">All Blueprints</option>
+            {facets.blueprints.map(b => <option key={b} value={b}>{b}</option>)}
+          </select>
+          <select value={query.pose} onChange={(e) => setFilter('pose', e.target.value)} className={selectClass}>
+            <option value="">All Poses</option>
+            {facets.poses.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <select value={query.location} onChange={(e) => setFilter('location', e.target.value)} className={selectClass}>
+            <option value="">All Locations</option>
+            {facets.locations.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+          <select value={query.status} onChange={(e) => setFilter('status', e.target.value as VisionStatus | '')} className={selectClass}>
+            <option value="">Any Status</option>
+            {(Object.keys(STATUS_LABELS) as VisionStatus[]).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+          </select>
+          <select value={query.minRating} onChange={(e) => setFilter('minRating', parseInt(e.target.value, 10))} className={selectClass}>
+            <option value={0}>Any Rating</option>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}★ and up</option>)}
+          </select>
+          {isFiltered && (
+            <button onClick={() => setQuery({ ...EMPTY_VISION_QUERY, sort: query.sort })} className="text-[9px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Reset Filters</button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <span className="text-[9px] font-bold uppercase tracking-widest text-white/40">{results.length} of {visions.length} visions{selectedIds.length ? ` // ${selectedIds.length} selected` : ''}</span>
+          <button
+            onClick={() => onSelectionChange(allShownSelected ? selectedIds.filter(id => !results.some(v => v.id === id)) : Array.from(new Set([...selectedIds, ...results.map(v => v.id)])))}
+            disabled={!results.length}
+            className="text-[9px] font-bold uppercase tracking-widest text-white/30 hover:text-white disabled:opacity-40 transition-colors"
+          >
+            {allShownSelected ? 'Deselect Shown' : 'Select Shown'}
+          </button>
+          {selectedIds.length > 0 && <button onClick={() => { onSelectionChange([]); setConfirmDelete(false); }} className="text-[9px] font-bold uppercase tracking-widest text-white/30 hover:text-white transition-colors">Clear</button>}
+        </div>
+        {selectedIds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={onCompare} disabled={selectedIds.length < 2 || selectedIds.length > maxCompare} title={`Compare 2 to ${maxCompare} visions`} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white transition-all">Compare</button>
+            <button onClick={() => onDownload(selectedIds)} disabled={isBusy} className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-all">{isBusy ? 'Packing...' : 'Download ZIP'}</button>
+            <div className="flex items-center gap-2">
+              <select value={attachHandle} onChange={(e) => setAttachHandle(e.target.value)} className={selectClass}>
+                <option value="">Attach to product...</option>
+                {products.map(p => <option key={p.handleId} value={p.handleId}>{p.name}</option>)}
+              </select>
+              <button onClick={() => { onAttach(selectedIds, attachHandle); setAttachHandle(''); }} disabled={!attachHandle} className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-all">Attach</button>
+            </div>
+            {confirmDelete ? (
+              <button onClick={() => { onDelete(selectedIds); setConfirmDelete(false); }} className="px-4 py-2 bg-red-600 hover:bg-red-500 rounded-xl text-[9px] font-bold uppercase tracking-widest text-white transition-all">Confirm Delete ({selectedIds.length})</button>
+            ) : (
+              <button onClick={() => setConfirmDelete(true)} className="px-4 py-2 bg-red-600/20 border border-red-500/20 rounded-xl text-[9px] font-bold uppercase tracking-widest text-red-300 hover:bg-red-600/40 transition-all">Delete</button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => { const scrollTop = e.currentTarget.scrollTop; setViewport(prev => ({ ...prev, scrollTop })); }}
+        className="h-[75vh] overflow-y-auto"
+      >
+        {!results.length && (
+          <div className="text-center py-20">
+            <p className="text-white/30 uppercase tracking-[0.4em] text-[10px]">{visions.length ? 'No visions match these filters' : 'Rendered visions will appear here'}</p>
+          </div>
+        )}
+        <div className="relative" style={{ height: rowCount * rowHeight }}>
+          {visible.map((v, i) => {
+            const index = firstRow * columns + i;
+            const isSelected = selectedIds.includes(v.id);
+            const src = v.imageUrl || imageUrls[v.id];
+            return (
+              <div
+                key={v.id}
+                className={`absolute glass-card rounded-2xl overflow-hidden group border transition-colors ${isSelected ? 'border-indigo-500/60' : 'border-white/5 hover:border-indigo-500/30'}`}
+                style={{ width: cardWidth, top: Math.floor(index / columns) * rowHeight, left: (index % columns) * (cardWidth + GAP) }}
+              >
+                <div className="relative overflow-hidden bg-black/40" style={{ height: cardWidth * 4 / 3 }}>
+                  {src
+                    ? <img src={src} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" alt="Vision" />
+                    : <div className="w-full h-full animate-pulse bg-white/[0.03]"></div>}
+                  <label className="absolute top-3 left-3 flex items-center gap-2 px-2 py-1 rounded-md bg-black/70 text-[7px] font-bold uppercase tracking-widest text-white/70 cursor-pointer">
+                    <input type="checkbox" checked={isSelected} onChange={() => toggleSelected(v.id)} className="accent-indigo-500" />
+                    Select
+                  </label>
+                  {v.review?.verdict && (
+                    <span className={`absolute top-3 right-3 px-2 py-1 rounded-md bg-black/70 text-[7px] font-bold uppercase tracking-widest ${v.review.verdict === 'approved' ? 'text-emerald-300' : 'text-red-300'}`} title={v.review.rejectionReasons?.join(', ')}>
+                      {v.review.verdict}
+                    </span>
+                  )}
+                </div>
+                <div className="p-3 border-t border-white/5 flex flex-col gap-2 overflow-hidden" style={{ height: CARD_FOOTER_HEIGHT }}>
+                  <div className="flex flex-wrap gap-1 h-[34px] overflow-hidden" title={visionTags(v).join(' // ')}>
+                    {visionTags(v).map(tag => (
+                      <span key={tag} className={`px-1.5 py-0.5 rounded text-[7px] font-bold uppercase tracking-widest ${tag === v.handleId ? 'bg-orange-500/10 text-orange-300/80' : tag === 'QA failed' ? 'bg-red-500/10 text-red-300/80' : 'bg-white/5 text-white/40'}`}>{tag}</span>
+                    ))}
+                  </div>
+                  <VisionReviewControls review={v.review} onChange={(patch) => onReview(v.id, patch)} showReasons={false} />
+                  <div className="flex justify-center gap-4 mt-auto">
+                    <button onClick={() => onRecall(v)} className="text-[9px] font-bold uppercase tracking-widest text-white/40 hover:text-indigo-400 transition-colors">Recall</button>
+                    {v.handleId && v.review?.verdict === 'approved' && <button onClick={() => onAddToExport(v)} className="text-[9px] font-bold uppercase tracking-widest text-white/40 hover:text-orange-400 transition-colors">Add to Export</button>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
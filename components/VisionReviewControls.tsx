@@ -0,0 +1,62 @@
+import React from 'react';
+import { VisionReview } from '../types';
+
+interface VisionReviewControlsProps {
+  review?: VisionReview;
+  onChange: (patch: Partial<VisionReview>) => void;
+  // Off in fixed-height gallery cards, where the reason chips would not fit
+  showReasons?: boolean;
+}
+
+export const REJECTION_REASONS = ['Wrong fit', 'Pattern mismatch', 'Missing labels', 'Anatomy', 'Lighting', 'Background', 'Off-brand styling'];
+
+export const VisionReviewControls: React.FC<VisionReviewControlsProps> = ({ review, onChange, showReasons = true }) => {
+  const reasons = review?.rejectionReasons || [];
+
+  const toggleReason = (reason: string) =>
+    onChange({ rejectionReasons: reasons.includes(reason) ? reasons.filter(r => r !== reason) : [...reasons, reason] });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-center gap-1">
+        {[1, 2, 3, 4, 5].map(star => (
+          <button
+            key={star}
+            onClick={() => onChange({ rating: review?.rating === star ? undefined : star })}
+            title={`${star} star${star === 1 ? '' : 's'}`}
+            className={`text-sm leading-none transition-colors ${(review?.rating || 0) >= star ? 'text-orange-400' : 'text-white/15 hover:text-white/40'}`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => onChange({ verdict: review?.verdict === 'approved' ? undefined : 'approved', rejectionReasons: undefined })}
+          className={`py-1.5 rounded-lg text-[8px] font-bold uppercase tracking-widest border transition-all ${review?.verdict === 'approved' ? 'bg-emerald-500/20 border-emerald-500/40 text-emerald-300' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}
+        >
+          Approve
+        </button>
+        <button
+          onClick={() => onChange({ verdict: review?.verdict === 'rejected' ? undefined : 'rejected' })}
+          className={`py-1.5 rounded-lg text-[8px] font-bold uppercase tracking-widest border transition-all ${review?.verdict === 'rejected' ? 'bg-red-500/20 border-red-500/40 text-red-300' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}
+        >
+          Reject
+        </button>
+      </div>
+      {showReasons && review?.verdict === 'rejected' && (
+        <div className="flex flex-wrap justify-center gap-1">
+          {REJECTION_REASONS.map(reason => (
+            <button
+              key={reason}
+              onClick={() => toggleReason(reason)}
+              className={`px-2 py-1 rounded-full text-[7px] font-bold uppercase tracking-widest border transition-all ${reasons.includes(reason) ? 'bg-red-500/20 border-red-500/40 text-red-200' : 'bg-white/5 border-white/10 text-white/30 hover:text-white'}`}
+            >
+              {reason}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
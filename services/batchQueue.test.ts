@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { BatchJob, GenerationStatus } from '../types';
+import { BatchQueueState, createBatchQueue } from './batchQueue';
+
+const job = (id: string): BatchJob => ({
+  id,
+  handleId: 'a',
+  productName: 'A',
+  imageUrl: '',
+  modelPose: 'Relaxed Standing',
+  locationStyle: 'Everyday',
+  bodyShape: 'Slim',
+  aspectRatio: '3:4',
+  status: { step: 'idle', message: 'Queued.' }
+});
+
+// A worker whose jobs finish only when the test releases them
+const deferredWorker = () => {
+  const releases: (() => void)[] = [];
+  const worker = (_job: BatchJob, _report: (status: GenerationStatus) => void, signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      releases.push(resolve);
+      signal.addEventListener('abort', () => reject(new Error('aborted')), { once: true });
+    });
+  return { worker, releaseAll: () => releases.splice(0).forEach(release => release()) };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createBatchQueue', () => {
+  it('reports running as soon as it starts, then finished', async () => {
+    const states: BatchQueueState[] = [];
+    const { worker, releaseAll } = deferredWorker();
+    const queue = createBatchQueue([job('1'), job('2')], worker, { concurrency: 2, onJobStatus: () => {}, onStateChange: s => states.push(s) });
+    expect(states).toEqual(['running']);
+    expect(queue.getState()).toBe('running');
+    releaseAll();
+    await flush();
+    expect(states).toEqual(['running', 'finished']);
+  });
+
+  it('reports pause, resume and cancel in order', async () => {
+    const states: BatchQueueState[] = [];
+    const statuses = new Map<string, string>();
+    const { worker } = deferredWorker();
+    const queue = createBatchQueue([job('1'), job('2')], worker, {
+      concurrency: 1,
+      onJobStatus: (id, status) => statuses.set(id, status.message),
+      onStateChange: s => states.push(s)
+    });
+    queue.pause();
+    queue.resume();
+    queue.cancel();
+    await flush();
+    expect(states).toEqual(['running', 'paused', 'running', 'cancelled']);
+    expect(statuses.get('1')).toBe('Cancelled.');
+    expect(statuses.get('2')).toBe('Cancelled.');
+  });
+
+  it('finishes at once when there is nothing to render', () => {
+    const states: BatchQueueState[] = [];
+    createBatchQueue([], deferredWorker().worker, { concurrency: 1, onJobStatus: () => {}, onStateChange: s => states.push(s) });
+    expect(states).toEqual(['finished']);
+  });
+});
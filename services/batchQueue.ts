@@ -0,0 +1,119 @@
+import { BatchJob, BatchRenderSettings, BodyShape, CastModel, GenerationStatus, Product } from "../types";
+import { classifyEngineError } from "./engineErrors";
+
+export type BatchQueueState = 'running' | 'paused' | 'cancelled' | 'finished';
+
+export interface BatchQueueHandle {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  getState: () => BatchQueueState;
+}
+
+interface BatchQueueOptions {
+  concurrency: number;
+  onJobStatus: (jobId: string, status: GenerationStatus) => void;
+  onStateChange: (state: BatchQueueState) => void;
+}
+
+/**
+ * Expands the selected products against every combination of the settings matrix.
+ * Cast models, when chosen, stand in for the body shape dimension.
+ */
+export const expandBatchMatrix = (products: Product[], settings: BatchRenderSettings, castModels: CastModel[] = []): BatchJob[] => {
+  const jobs: BatchJob[] = [];
+  const stamp = Date.now();
+  const casts = castModels.filter(c => settings.castModelIds.includes(c.id));
+  const castings: { bodyShape: BodyShape; cast?: CastModel }[] = casts.length
+    ? casts.map(cast => ({ bodyShape: cast.bodyShape, cast }))
+    : settings.bodyShapes.map(bodyShape => ({ bodyShape }));
+  products.forEach(product => {
+    settings.poses.forEach(modelPose => {
+      settings.locations.forEach(locationStyle => {
+        castings.forEach(({ bodyShape, cast }) => {
+          settings.aspectRatios.forEach(aspectRatio => {
+            jobs.push({
+              id: `${stamp}-${jobs.length}`,
+              handleId: product.handleId,
+              productName: product.name,
+              imageUrl: product.imageUrl,
+              modelPose,
+              locationStyle,
+              bodyShape,
+              aspectRatio,
+              castModelId: cast?.id,
+              castName: cast?.name,
+              status: { step: 'idle', message: 'Queued.' }
+            });
+          });
+        });
+      });
+    });
+  });
+  return jobs;
+};
+
+/**
+ * Runs jobs through the worker with at most `concurrency` in flight.
+ * Pausing lets in-flight jobs finish but starts no new ones; cancelling drops
+ * everything still pending and aborts the jobs in flight through their signal.
+ */
+export const createBatchQueue = (
+  jobs: BatchJob[],
+  worker: (job: BatchJob, report: (status: GenerationStatus) => void, signal: AbortSignal) => Promise<void>,
+  { concurrency, onJobStatus, onStateChange }: BatchQueueOptions
+): BatchQueueHandle => {
+  const pending = [...jobs];
+  const inFlight = new Map<string, AbortController>();
+  let active = 0;
+  let state: BatchQueueState = 'running';
+
+  const setState = (next: BatchQueueState) => {
+    state = next;
+    onStateChange(next);
+  };
+
+  const settle = () => {
+    active--;
+    if (!pending.length && !active && state !== 'cancelled') setState('finished');
+    else pump();
+  };
+
+  const pump = () => {
+    while (state === 'running' && active < concurrency && pending.length) {
+      const job = pending.shift()!;
+      const controller = new AbortController();
+      inFlight.set(job.id, controller);
+      active++;
+      onJobStatus(job.id, { step: 'production', message: 'Starting...' });
+      worker(job, status => { if (!controller.signal.aborted) onJobStatus(job.id, status); }, controller.signal)
+        .then(() => onJobStatus(job.id, { step: 'completed', message: 'Rendered.' }))
+        .catch((err: any) => onJobStatus(job.id, { step: 'error', message: controller.signal.aborted ? 'Cancelled.' : classifyEngineError(err).message }))
+        .finally(() => { inFlight.delete(job.id); settle(); });
+    }
+  };
+
+  // Report the starting state too, so the caller never has to assume it
+  if (!pending.length) setState('finished');
+  else {
+    setState('running');
+    pump();
+  }
+
+  return {
+    pause: () => { if (state === 'running') setState('paused'); },
+    resume: () => {
+      if (state !== 'paused') return;
+      setState('running');
+      if (!pending.length && !active) setState('finished');
+      else pump();
+    },
+    cancel: () => {
+      if (state === 'cancelled' || state === 'finished') return;
+      pending.splice(0).forEach(job => onJobStatus(job.id, { step: 'error', message: 'Cancelled.' }));
+      inFlight.forEach(controller => controller.abort());
+      setState('cancelled');
+    },
+    getState: () => state
+  };
+};
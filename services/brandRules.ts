@@ -0,0 +1,48 @@
+import { BrandRuleProfile, Product } from "../types";
+
+export const SIGNATURE_BRAND_PROFILE: BrandRuleProfile = {
+  id: 'signature',
+  version: 1,
+  name: 'Zimbabalooba Core',
+  brandName: 'Zimbabalooba',
+  persona: 'Lead Copywriter for Zimbabalooba',
+  copyTone: 'Poetic',
+  rules: [
+    { id: 'waist_drawstring', kind: 'must', label: 'Waist', text: 'Heavy gathered elasticated waistband with an INVISIBLE INTERNAL DRAWSTRING. NO thick rope cords.' },
+    { id: 'hem_labels', kind: 'must', label: 'Hem', text: 'Twin oval Zimbabalooba brand labels on lower leg hems. Sharp, clear, precisely placed.' },
+    { id: 'pattern_fidelity', kind: 'must', label: 'Pattern', text: 'Accurate pattern reproduction from reference.' },
+    { id: 'no_thigh_patches', kind: 'must_not', label: 'Thigh Patches', text: 'Patches, pocket flaps or labels on the thighs.' }
+  ],
+  collections: [],
+  timestamp: 0,
+  isBuiltIn: true
+};
+
+/**
+ * The newest version of every profile, with the built-in signature included
+ * unless it has been edited.
+ */
+export const latestBrandProfiles = (history: BrandRuleProfile[]): BrandRuleProfile[] => {
+  const latest = new Map<string, BrandRuleProfile>([[SIGNATURE_BRAND_PROFILE.id, SIGNATURE_BRAND_PROFILE]]);
+  history.forEach(p => {
+    const current = latest.get(p.id);
+    if (!current || p.version > current.version) latest.set(p.id, p);
+  });
+  return Array.from(latest.values());
+};
+
+export const findBrandProfile = (history: BrandRuleProfile[], id?: string): BrandRuleProfile =>
+  latestBrandProfiles(history).find(p => p.id === id) || latestBrandProfiles(history)[0];
+
+/**
+ * Picks the profile for a product: its own choice first, then a profile that
+ * claims its collection, then the fallback (usually the Studio selection).
+ */
+export const resolveBrandProfile = (product: Product | undefined, history: BrandRuleProfile[], fallbackId?: string): BrandRuleProfile => {
+  const profiles = latestBrandProfiles(history);
+  const explicit = product?.brandProfileId && profiles.find(p => p.id === product.brandProfileId);
+  if (explicit) return explicit;
+  const collection = product?.collection?.trim().toLowerCase();
+  const byCollection = collection && profiles.find(p => p.collections.some(c => c.trim().toLowerCase() === collection));
+  return byCollection || findBrandProfile(history, fallbackId);
+};
@@ -0,0 +1,33 @@
+import { BodyShape, CastModel, Ethnicity, GeneratedArtifact, Product } from "../types";
+
+/**
+ * The cast model's attributes as a prompt sentence, followed by the
+ * engine-written identity when the model has an anchor image.
+ */
+export const describeCastModel = (cast: CastModel): string => {
+  const traits = [`aged ${cast.ageRange}`, cast.height && `${cast.height} tall`, cast.hair && `${cast.hair} hair`].filter(Boolean).join(', ');
+  return [`${traits}.`, cast.notes.trim(), cast.identity].filter(Boolean).join(' ');
+};
+
+export interface ProductCoverage {
+  product: Product;
+  visionCount: number;
+  ethnicities: Partial<Record<Ethnicity, number>>;
+  bodyShapes: Partial<Record<BodyShape, number>>;
+}
+
+/**
+ * Counts, per product, the renders made on each ethnicity and body shape.
+ * Visions without recorded params (older renders) are not counted.
+ */
+export const buildCoverageReport = (products: Product[], visions: Pick<GeneratedArtifact, 'handleId' | 'params'>[]): ProductCoverage[] => {
+  const byHandle = new Map<string, ProductCoverage>(products.map(product => [product.handleId, { product, visionCount: 0, ethnicities: {}, bodyShapes: {} }]));
+  visions.forEach(v => {
+    const row = v.handleId ? byHandle.get(v.handleId) : undefined;
+    if (!row || !v.params) return;
+    row.visionCount++;
+    row.ethnicities[v.params.ethnicity] = (row.ethnicities[v.params.ethnicity] || 0) + 1;
+    row.bodyShapes[v.params.bodyShape] = (row.bodyShapes[v.params.bodyShape] || 0) + 1;
+  });
+  return Array.from(byHandle.values());
+};
@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { ExportEntry, Product } from '../types';
+import { parseProductCSV, readCsvTable } from './csvParser';
+import { buildExportCSV, findLocalRenders, inferExportPlatform } from './csvExporter';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf-8');
+
+const toEntries = (products: Product[], generated: Record<string, string[]> = {}): ExportEntry[] =>
+  products.map(p => ({ ...p, generatedImageUrls: generated[p.handleId] || [] }));
+
+// The fields a re-import should reproduce exactly
+const summarize = (products: Product[]) => products.map(p => ({
+  handleId: p.handleId, name: p.name, description: p.description, price: p.price, sku: p.sku,
+  size: p.size, galleryUrls: p.galleryUrls, variants: p.variants
+}));
+
+describe('buildExportCSV — Shopify round trip', () => {
+  const text = fixture('shopify-products.csv');
+  const products = parseProductCSV(text);
+
+  it('re-imports to the same products when nothing changed', () => {
+    const csv = buildExportCSV(toEntries(products), 'shopify');
+    expect(summarize(parseProductCSV(csv))).toEqual(summarize(products));
+  });
+
+  it('keeps columns the app does not model', () => {
+    const csv = buildExportCSV(toEntries(products), 'shopify');
+    const { headers, rows } = readCsvTable(csv);
+    expect(headers).toEqual(readCsvTable(text).headers);
+    expect(rows[0][headers.indexOf('SEO Title')]).toBe('Baggy Jeans | Zimbabalooba');
+    expect(rows[0][headers.indexOf('Tags')]).toBe('denim, painted');
+  });
+
+  it('appends generated images as image-only rows after the existing ones', () => {
+    const generated = { 'baggy-jeans': ['https://cdn.example.com/vision-1.png'] };
+    const reimported = parseProductCSV(buildExportCSV(toEntries(products, generated), 'shopify'));
+    const jeans = reimported.find(p => p.handleId === 'baggy-jeans')!;
+    expect(jeans.galleryUrls?.at(-1)).toBe('https://cdn.example.com/vision-1.png');
+    expect(jeans.sourceRows?.at(-1)?.[jeans.sourceHeaders!.indexOf('Image Position')]).toBe('4');
+    expect(jeans.variants).toHaveLength(2);
+  });
+
+  it('applies edits to the product row', () => {
+    const [jeans, hat] = toEntries(products);
+    const csv = buildExportCSV([{ ...jeans, name: 'Baggy Painted Jeans' }, { ...hat, price: '39.00' }], 'shopify');
+    const reimported = parseProductCSV(csv);
+    expect(reimported.map(p => p.name)).toEqual(['Baggy Painted Jeans', 'Bucket Hat']);
+    expect(reimported[1].price).toBe('39.00');
+  });
+});
+
+describe('buildExportCSV — Wix round trip', () => {
+  const products = parseProductCSV(fixture('wix-products.csv'));
+
+  it('re-imports to the same products when nothing changed', () => {
+    const csv = buildExportCSV(toEntries(products), 'wix');
+    expect(summarize(parseProductCSV(csv))).toEqual(summarize(products));
+  });
+
+  it('keeps the Variant rows under their Product row', () => {
+    const { headers, rows } = readCsvTable(buildExportCSV(toEntries(products), 'wix'));
+    expect(rows.map(r => r[headers.indexOf('fieldType')])).toEqual(['Product', 'Variant', 'Variant', 'Product']);
+    expect(rows[1][headers.indexOf('surcharge')]).toBe('0');
+  });
+
+  it('joins generated images onto the product image list', () => {
+    const generated = { product_91bd02: ['https://cdn.example.com/vision-2.png'] };
+    const reimported = parseProductCSV(buildExportCSV(toEntries(products, generated), 'wix'));
+    expect(reimported.find(p => p.handleId === 'product_91bd02')!.galleryUrls).toEqual([
+      'https://static.wixstatic.com/media/8bb231_tote~mv2.jpg',
+      'https://cdn.example.com/vision-2.png'
+    ]);
+  });
+});
+
+describe('inferExportPlatform', () => {
+  it('follows the platform most entries came from', () => {
+    const shopify = toEntries(parseProductCSV(fixture('shopify-products.csv')));
+    const wix = toEntries(parseProductCSV(fixture('wix-products.csv')));
+    expect(inferExportPlatform([...shopify, wix[0]])).toBe('shopify');
+    expect(inferExportPlatform([])).toBe('generic');
+  });
+});
+
+describe('buildExportCSV — local renders', () => {
+  const products = parseProductCSV(fixture('shopify-products.csv'));
+  const generated = { 'bucket-hat': ['data:image/png;base64,AAAA', 'https://cdn.example.com/vision-3.png'] };
+
+  it.each(['shopify', 'wix', 'generic'] as const)('leaves data: URLs out of the %s layout', platform => {
+    const csv = buildExportCSV(toEntries(products, generated), platform);
+    expect(csv).not.toContain('data:');
+    expect(csv).toContain('https://cdn.example.com/vision-3.png');
+  });
+
+  it('lists the entries that still need hosted URLs', () => {
+    expect(findLocalRenders(toEntries(products, generated)).map(r => [r.entry.handleId, r.count])).toEqual([['bucket-hat', 1]]);
+  });
+});
@@ -0,0 +1,198 @@
+import { ExportEntry, StorePlatform } from "../types";
+
+/**
+ * Quotes a field only when the CSV grammar requires it.
+ */
+const escapeCsvField = (value: string): string => {
+  const clean = value ?? '';
+  if (/[",\r\n]/.test(clean)) return `"${clean.replace(/"/g, '""')}"`;
+  return clean;
+};
+
+const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+// Renders kept only in the browser; a store cannot fetch them, so they never reach the CSV
+const isLocalImage = (url: string) => url.startsWith('data:');
+
+const hostedRenders = (entry: ExportEntry): string[] => entry.generatedImageUrls.filter(url => url && !isLocalImage(url));
+
+/**
+ * The entries with renders that still need a hosted URL before they can be exported.
+ */
+export const findLocalRenders = (entries: ExportEntry[]): { entry: ExportEntry; count: number }[] =>
+  entries
+    .map(entry => ({ entry, count: entry.generatedImageUrls.filter(isLocalImage).length }))
+    .filter(({ count }) => count > 0);
+
+const collectImages = (entry: ExportEntry): string[] =>
+  Array.from(new Set([...(entry.galleryUrls || [entry.imageUrl]), ...hostedRenders(entry)].filter(Boolean)));
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Lays a record keyed by normalized header names out in the order of `headers`.
+ */
+const toRow = (headers: string[], record: Record<string, string>): string[] =>
+  headers.map(h => record[normalizeHeader(h)] ?? '');
+
+/**
+ * Re-emits the imported rows under `headers`, so columns the app does not model
+ * (tags, weights, SEO fields) survive the round trip.
+ */
+const projectSourceRows = (entry: ExportEntry, headers: string[]): string[][] => {
+  const source = (entry.sourceHeaders || []).map(normalizeHeader);
+  return (entry.sourceRows || []).map(row => headers.map(h => {
+    const idx = source.indexOf(normalizeHeader(h));
+    return idx === -1 ? '' : row[idx] ?? '';
+  }));
+};
+
+const setField = (row: string[], headers: string[], name: string, value: string) => {
+  const idx = headers.findIndex(h => normalizeHeader(h) === name);
+  if (idx !== -1) row[idx] = value;
+};
+
+const isRoundTrip = (entry: ExportEntry, platform: StorePlatform) =>
+  entry.sourcePlatform === platform && !!entry.sourceRows?.length && !!entry.sourceHeaders;
+
+// Price and SKU edits only map cleanly onto a product with a single variant
+const hasSingleVariant = (entry: ExportEntry) => (entry.variants?.length || 0) <= 1;
+
+const SHOPIFY_HEADER = [
+  'Handle', 'Title', 'Body (HTML)', 'Type', 'Published',
+  'Option1 Name', 'Option1 Value', 'Variant SKU', 'Variant Price',
+  'Image Src', 'Image Position', 'Image Alt Text'
+];
+
+/**
+ * Shopify product template: one row per product, followed by image-only rows
+ * carrying the same Handle for every additional image. Products imported from
+ * Shopify keep their original rows, with edits and new images applied on top.
+ */
+const buildShopifyRows = (entries: ExportEntry[]): string[][] => {
+  const header = entries.find(e => isRoundTrip(e, 'shopify'))?.sourceHeaders || SHOPIFY_HEADER;
+  const rows: string[][] = [header];
+  entries.forEach(entry => {
+    if (isRoundTrip(entry, 'shopify')) {
+      const sourceRows = projectSourceRows(entry, header);
+      setField(sourceRows[0], header, 'title', entry.name);
+      setField(sourceRows[0], header, 'bodyhtml', entry.description);
+      if (hasSingleVariant(entry)) {
+        setField(sourceRows[0], header, 'variantprice', entry.price);
+        setField(sourceRows[0], header, 'variantsku', entry.sku || '');
+      }
+      rows.push(...sourceRows);
+      const imageIdx = header.findIndex(h => normalizeHeader(h) === 'imagesrc');
+      const handleIdx = header.findIndex(h => normalizeHeader(h) === 'handle');
+      const existing = imageIdx === -1 ? 0 : sourceRows.filter(r => r[imageIdx]).length;
+      // A product matched by SKU on re-import keeps its local handle; the store's is in the rows
+      const handle = (handleIdx !== -1 && sourceRows[0][handleIdx]) || entry.handleId;
+      hostedRenders(entry).forEach((src, i) => {
+        rows.push(toRow(header, { handle, imagesrc: src, imageposition: String(existing + i + 1), imagealttext: entry.name }));
+      });
+      return;
+    }
+
+    const images = collectImages(entry);
+    const variants = entry.variants?.length ? entry.variants : [{ options: {}, size: entry.size, sku: entry.sku, price: entry.price }];
+    variants.forEach((variant, i) => {
+      const record: Record<string, string> = {
+        handle: entry.handleId,
+        option1value: variant.size || 'Default Title',
+        variantsku: variant.sku || '',
+        variantprice: variant.price
+      };
+      if (i === 0) {
+        Object.assign(record, {
+          title: entry.name, bodyhtml: entry.description, type: entry.collection || '', published: 'TRUE',
+          option1name: variant.size ? 'Size' : 'Title',
+          imagesrc: images[0] || '', imageposition: images[0] ? '1' : '', imagealttext: entry.name
+        });
+      }
+      rows.push(toRow(header, record));
+    });
+    images.slice(1).forEach((src, i) => {
+      rows.push(toRow(header, { handle: entry.handleId, imagesrc: src, imageposition: String(i + 2), imagealttext: entry.name }));
+    });
+  });
+  return rows;
+};
+
+const WIX_HEADER = [
+  'handleId', 'fieldType', 'name', 'description', 'productImageUrl', 'collection',
+  'sku', 'price', 'visible', 'productOptionName1', 'productOptionType1', 'productOptionDescription1'
+];
+
+/**
+ * Wix catalog template: one row per product, images joined with semicolons.
+ * Products imported from Wix keep their Product and Variant rows.
+ */
+const buildWixRows = (entries: ExportEntry[]): string[][] => {
+  const header = entries.find(e => isRoundTrip(e, 'wix'))?.sourceHeaders || WIX_HEADER;
+  const rows: string[][] = [header];
+  entries.forEach(entry => {
+    if (isRoundTrip(entry, 'wix')) {
+      const sourceRows = projectSourceRows(entry, header);
+      const typeIdx = header.findIndex(h => normalizeHeader(h) === 'fieldtype');
+      const productRow = sourceRows.find(r => typeIdx === -1 || r[typeIdx].toLowerCase() !== 'variant') || sourceRows[0];
+      const imageIdx = header.findIndex(h => normalizeHeader(h) === 'productimageurl');
+      setField(productRow, header, 'name', entry.name);
+      setField(productRow, header, 'description', entry.description);
+      if (imageIdx !== -1) {
+        setField(productRow, header, 'productimageurl', [productRow[imageIdx], ...hostedRenders(entry)].filter(Boolean).join(';'));
+      }
+      if (hasSingleVariant(entry)) {
+        setField(productRow, header, 'price', entry.price);
+        setField(productRow, header, 'sku', entry.sku || '');
+      }
+      rows.push(...sourceRows);
+      return;
+    }
+
+    rows.push(toRow(header, {
+      handleid: entry.handleId, fieldtype: 'Product', name: entry.name, description: entry.description,
+      productimageurl: collectImages(entry).join(';'), collection: entry.collection || '',
+      sku: entry.sku || '', price: entry.price, visible: 'true',
+      productoptionname1: entry.size ? 'Size' : '', productoptiontype1: entry.size ? 'DROP_DOWN' : '',
+      productoptiondescription1: entry.variants?.length ? entry.variants.map(v => v.size).filter(Boolean).join(';') : entry.size || ''
+    }));
+    if (hasSingleVariant(entry)) return;
+    entry.variants!.forEach(variant => {
+      rows.push(toRow(header, {
+        handleid: entry.handleId, fieldtype: 'Variant', sku: variant.sku || '', price: variant.price,
+        visible: 'true', productoptiondescription1: variant.size || ''
+      }));
+    });
+  });
+  return rows;
+};
+
+const buildGenericRows = (entries: ExportEntry[]): string[][] => {
+  const header = ['handleId', 'name', 'description', 'price', 'sku', 'collection', 'size', 'imageUrl', 'generatedImageUrls'];
+  const rows: string[][] = [header];
+  entries.forEach(entry => {
+    rows.push([
+      entry.handleId, entry.name, entry.description, entry.price, entry.sku || '',
+      entry.collection || '', entry.size || '', entry.imageUrl, hostedRenders(entry).join(';')
+    ]);
+  });
+  return rows;
+};
+
+/**
+ * Picks the layout of the platform most of the manifest was imported from.
+ */
+export const inferExportPlatform = (entries: ExportEntry[]): StorePlatform => {
+  const counts: Record<StorePlatform, number> = { shopify: 0, wix: 0, generic: 0 };
+  entries.forEach(e => { counts[e.sourcePlatform || 'generic']++; });
+  return (Object.keys(counts) as StorePlatform[]).reduce((best, p) => counts[p] > counts[best] ? p : best, 'generic');
+};
+
+export const buildExportCSV = (entries: ExportEntry[], platform: StorePlatform): string => {
+  switch (platform) {
+    case 'shopify': return toCsv(buildShopifyRows(entries));
+    case 'wix': return toCsv(buildWixRows(entries));
+    default: return toCsv(buildGenericRows(entries));
+  }
+};
@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { detectStorePlatform, parseProductCSV, readCsvTable } from './csvParser';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf-8');
+
+describe('parseProductCSV — Shopify export', () => {
+  const products = parseProductCSV(fixture('shopify-products.csv'));
+  const jeans = products.find(p => p.handleId === 'baggy-jeans')!;
+  const hat = products.find(p => p.handleId === 'bucket-hat')!;
+
+  it('detects the platform from the header signature', () => {
+    const { headers } = readCsvTable(fixture('shopify-products.csv'));
+    expect(detectStorePlatform(headers.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, '')))).toBe('shopify');
+    expect(products.every(p => p.sourcePlatform === 'shopify')).toBe(true);
+  });
+
+  it('groups variant and image rows by Handle', () => {
+    expect(products).toHaveLength(2);
+    expect(jeans.sourceRows).toHaveLength(3);
+    expect(jeans.name).toBe('Baggy Jeans');
+    expect(jeans.variants?.map(v => [v.size, v.sku, v.price, v.inventory])).toEqual([
+      ['30', 'ZB-BJ-30', '89.00', '3'],
+      ['32', 'ZB-BJ-32', '89.00', '0']
+    ]);
+    expect(jeans.size).toBe('30 / 32');
+  });
+
+  it('keeps image-only rows as gallery images, not variants', () => {
+    expect(jeans.galleryUrls).toEqual([
+      'https://cdn.shopify.com/s/files/1/baggy-front.jpg',
+      'https://cdn.shopify.com/s/files/1/baggy-back.jpg',
+      'https://cdn.shopify.com/s/files/1/baggy-detail.jpg'
+    ]);
+    expect(jeans.variants).toHaveLength(2);
+  });
+
+  it('drops the Default Title placeholder', () => {
+    expect(hat.variants).toHaveLength(1);
+    expect(hat.variants![0].options).toEqual({});
+    expect(hat.size).toBe('');
+    expect(hat.sku).toBe('ZB-BH-01');
+  });
+});
+
+describe('parseProductCSV — Wix export', () => {
+  const products = parseProductCSV(fixture('wix-products.csv'));
+  const shorts = products.find(p => p.handleId === 'product_7f3c1a')!;
+  const tote = products.find(p => p.handleId === 'product_91bd02')!;
+
+  it('splits Product rows from their Variant rows', () => {
+    expect(products).toHaveLength(2);
+    expect(products.every(p => p.sourcePlatform === 'wix')).toBe(true);
+    expect(shorts.sourceRows).toHaveLength(3);
+    expect(shorts.name).toBe('Patchwork Shorts');
+    expect(shorts.variants?.map(v => [v.size, v.sku, v.inventory])).toEqual([
+      ['S', 'ZB-PS-S', '4'],
+      ['M', 'ZB-PS-M', '0']
+    ]);
+  });
+
+  it('falls back to the Product row price for variants without one', () => {
+    expect(shorts.variants?.map(v => v.price)).toEqual(['55', '55']);
+    expect(shorts.price).toBe('55');
+  });
+
+  it('expands raw Wix media ids into full URLs', () => {
+    expect(shorts.galleryUrls).toEqual([
+      'https://static.wixstatic.com/media/8bb231_shorts1~mv2.jpg',
+      'https://static.wixstatic.com/media/8bb231_shorts2~mv2.jpg'
+    ]);
+  });
+
+  it('leaves products without Variant rows variant-free', () => {
+    expect(tote.variants).toBeUndefined();
+    expect(tote.sku).toBe('ZB-CT');
+  });
+});
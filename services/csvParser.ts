@@ -1,153 +1,190 @@
 
-import { Product } from "../types";
+import { ColumnMapping, CsvDelimiter, ImportField, Product, ProductVariant, StorePlatform } from "../types";
+import { extractSizeFromTitle, transformImageUrl } from "./productNormalizer";
 
 /**
- * Robustly extracts a Wix Image ID from a string, supporting raw filenames, 
- * full URLs, and internal Wix URIs.
+ * Identifies the storefront that produced an export from its header signature.
  */
-const getWixImageId = (url: string): string | null => {
-  if (!url) return null;
-  const clean = url.trim();
-  
-  // Case 1: Internal Wix URI wix:image://v1/hash~mv2.jpg/...
-  if (clean.startsWith('wix:image')) {
-    const parts = clean.split('/');
-    const idPart = parts.find(p => p.includes('~mv2'));
-    if (idPart) return idPart.split('#')[0];
-  }
+export const detectStorePlatform = (normalizedHeaders: string[]): StorePlatform => {
+  const has = (h: string) => normalizedHeaders.includes(h);
+  if (has('handle') && (has('bodyhtml') || has('variantprice') || has('imagesrc'))) return 'shopify';
+  if (has('handleid') && (has('fieldtype') || has('productimageurl'))) return 'wix';
+  return 'generic';
+};
 
-  // Case 2: Any string containing ~mv2 is a Wix media asset
-  if (clean.includes('~mv2')) {
-    const parts = clean.split('/');
-    const fileName = parts[parts.length - 1];
-    return fileName.split('?')[0].split('#')[0];
-  }
+// Broad fuzzy matching, in priority order, used to guess the column for each field
+const FIELD_GUESSES: Record<ImportField, string[]> = {
+  handleId: ['handleid', 'id', 'productid', 'handle', 'sku'],
+  name: ['name', 'title', 'productname', 'producttitle', 'handle', 'itemname'],
+  description: ['description', 'plaindescription', 'productdescription', 'bodyhtml', 'content', 'body', 'excerpt', 'shortdescription'],
+  imageUrl: [
+    'productimageurl', 'productimage', 'imagesrc', 'image', 'images', 'thumbnail',
+    'mainimage', 'picture', 'url', 'src', 'img', 'media', 'photo', 'gallery'
+  ],
+  price: ['price', 'variantprice', 'value', 'pricevalue', 'amount', 'regularprice', 'saleprice', 'cost'],
+  sku: ['sku', 'variantsku', 'code', 'reference', 'partnumber'],
+  collection: ['collection', 'category', 'type', 'categories', 'tag'],
+  size: ['size', 'option1', 'option1value', 'variantinventorysize', 'variantsize', 'optionsize'],
+  inventory: ['variantinventoryqty', 'inventory', 'quantity', 'stock', 'qty'],
+  dateUploaded: ['date', 'created', 'createdat', 'dateuploaded']
+};
 
-  // Case 3: Standard Wix hash patterns (usually hex_something.jpg)
-  const hashMatch = clean.match(/[a-f0-9]{6,}_[a-f0-9]{6,}\.(jpg|png|webp|jpeg)/i);
-  if (hashMatch) return hashMatch[0];
+export const IMPORT_FIELDS: { key: ImportField; label: string }[] = [
+  { key: 'handleId', label: 'Handle / ID' },
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'imageUrl', label: 'Image URL' },
+  { key: 'price', label: 'Price' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'collection', label: 'Collection' },
+  { key: 'size', label: 'Size' },
+  { key: 'inventory', label: 'Inventory' },
+  { key: 'dateUploaded', label: 'Date' }
+];
 
-  return null;
-};
+const MAX_OPTIONS = 6;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
 
 /**
- * Ensures URLs have proper protocols.
+ * Picks the delimiter that splits the header line into the most columns,
+ * ignoring anything inside quotes. European spreadsheets default to ';'.
  */
-const sanitizeUrl = (url: string): string => {
-  let clean = url.trim();
-  if (clean.startsWith('//')) return `https:${clean}`;
-  return clean;
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/).find(line => line.trim()) || '';
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  const counts = CSV_DELIMITERS.map(d => unquoted.split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? CSV_DELIMITERS[best] : ',';
 };
 
 /**
- * Transforms CSV image fields into standard objects.
- * Prioritizes raw URLs to ensure "pulled from CSV" reliability.
+ * Decodes an uploaded file. Honors UTF-8/UTF-16 byte order marks, and falls back
+ * to Windows-1252 when the bytes are not valid UTF-8 (older Excel exports).
  */
-const transformImageUrl = (input: string): { full: string; thumb: string } => {
-  if (!input) return { full: "", thumb: "" };
-  let val = input.trim();
-
-  // 1. Handle JSON (Some Wix/Shopify exports stringify the image array)
-  if (val.startsWith('[') || val.startsWith('{')) {
-    try {
-      const parsed = JSON.parse(val);
-      const first = Array.isArray(parsed) ? parsed[0] : parsed;
-      val = first.url || first.src || first.image || first.id || val;
-    } catch (e) {}
-  }
-
-  // 2. Handle multiple items (Pick the first)
-  val = val.split(/[;|,]/)[0].trim();
-
-  // 3. Handle Full URLs
-  if (val.startsWith('http') || val.startsWith('//')) {
-    const sanitized = sanitizeUrl(val);
-    const wixId = getWixImageId(sanitized);
-    // If it's a Wix URL, we can still generate a dynamic thumbnail
-    if (wixId) {
-      return {
-        full: sanitized,
-        thumb: `https://static.wixstatic.com/media/${wixId}/v1/fill/w_400,h_400,al_c,q_80/thumbnail.jpg`
-      };
-    }
-    return { full: sanitized, thumb: sanitized };
-  }
-
-  // 4. Handle Raw Wix Filenames (e.g. 8bb231_...~mv2.jpg)
-  const wixId = getWixImageId(val);
-  if (wixId) {
-    return {
-      full: `https://static.wixstatic.com/media/${wixId}`,
-      thumb: `https://static.wixstatic.com/media/${wixId}/v1/fill/w_400,h_400,al_c,q_80/thumbnail.jpg`
-    };
+export const decodeImportBytes = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    return new TextDecoder('windows-1252').decode(bytes);
   }
+};
 
-  // 5. Fallback: return as is
-  return { full: val, thumb: val };
+export const readCsvTable = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)) => {
+  const rows = parseCSVRows(text.replace(/^\uFEFF/, ''), delimiter);
+  return { headers: rows[0] || [], rows: rows.slice(1), delimiter };
 };
 
-/**
- * Enhanced heuristic to extract sizes (Letter or Numeric Waist) from product titles.
- */
-const extractSizeFromTitle = (title: string): string => {
-  if (!title) return "";
-  
-  // Check for waist sizes (e.g., 32, 32W, 34x32)
-  const waistMatch = title.match(/\b(2[4-9]|3[0-9]|4[0-8])([wW])?\b/);
-  if (waistMatch) return waistMatch[0].toUpperCase();
-
-  // Check for dimension patterns (e.g., 32/34)
-  const slashMatch = title.match(/\b(2[4-9]|3[0-9]|4[0-8])\/(2[4-9]|3[0-9]|4[0-8])\b/);
-  if (slashMatch) return slashMatch[0];
-
-  // Check for letter sizes (XS - XXXL)
-  const letterMatch = title.match(/\b(XS|S|M|L|XL|XXL|XXXL|2XL|3XL)\b/i);
-  if (letterMatch) return letterMatch[0].toUpperCase();
-
-  return "";
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const idx = FIELD_GUESSES[key].map(g => normalized.indexOf(g)).find(i => i !== -1);
+    mapping[key] = idx !== undefined ? headers[idx] : null;
+  });
+  return mapping;
 };
 
-export const parseProductCSV = (text: string): Product[] => {
-  const rows = parseCSVRows(text);
-  if (rows.length < 2) return [];
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter;
+  mapping?: ColumnMapping;
+}
 
-  const rawHeaders = rows[0];
-  const normalizedHeaders = rawHeaders.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ''));
-  const data = rows.slice(1);
+export const parseProductCSV = (text: string, options: CsvParseOptions = {}): Product[] => {
+  const { headers: rawHeaders, rows: data } = readCsvTable(text, options.delimiter);
+  if (!data.length) return [];
+
+  const normalizedHeaders = rawHeaders.map(normalizeHeader);
+  const sourcePlatform = detectStorePlatform(normalizedHeaders);
+  const mapping = options.mapping || guessColumnMapping(rawHeaders);
 
   const findColIdx = (possible: string[]) => {
-    const targets = possible.map(p => p.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const targets = possible.map(normalizeHeader);
     return targets.map(t => normalizedHeaders.indexOf(t)).find(i => i !== -1);
   };
 
-  return data.map((row, index) => {
-    const getVal = (possibleHeaders: string[]) => {
-      const idx = findColIdx(possibleHeaders);
-      return (idx !== undefined && row[idx]) ? row[idx].trim() : "";
+  // Structural columns (option names, Wix field types) are still located by name
+  const getRaw = (row: string[], possibleHeaders: string[]) => {
+    const idx = findColIdx(possibleHeaders);
+    return (idx !== undefined && row[idx]) ? row[idx].trim() : "";
+  };
+
+  const getVal = (row: string[], field: ImportField) => {
+    const column = mapping[field];
+    const idx = column === null ? -1 : rawHeaders.indexOf(column);
+    return (idx !== -1 && row[idx]) ? row[idx].trim() : "";
+  };
+
+  // Shopify repeats the Handle on every variant and image row; Wix follows a
+  // Product row with Variant rows sharing its handleId. Group them back together.
+  const groups: string[][][] = [];
+  const groupsByHandle = new Map<string, string[][]>();
+  data.forEach(row => {
+    const handle = getVal(row, 'handleId');
+    const existing = handle ? groupsByHandle.get(handle) : undefined;
+    if (existing) existing.push(row);
+    else {
+      const group = [row];
+      groups.push(group);
+      if (handle) groupsByHandle.set(handle, group);
+    }
+  });
+
+  const readVariant = (row: string[], productRow: string[]): ProductVariant => {
+    const options: Record<string, string> = {};
+    for (let i = 1; i <= MAX_OPTIONS; i++) {
+      const optionName = getRaw(productRow, [`option${i}name`, `productoptionname${i}`]);
+      const optionValue = getRaw(row, [`option${i}value`, `productoptiondescription${i}`]);
+      // Shopify's placeholder value for products without options
+      if (optionName && optionValue && optionValue !== 'Default Title') options[optionName] = optionValue;
+    }
+    const sizeOption = Object.keys(options).find(k => /size|waist/i.test(k));
+    let size = sizeOption ? options[sizeOption] : getVal(row, 'size');
+    if (size === 'Default Title') size = "";
+    return {
+      options,
+      size: size || undefined,
+      sku: getVal(row, 'sku') || undefined,
+      price: getVal(row, 'price') || getVal(productRow, 'price'),
+      inventory: getVal(row, 'inventory') || undefined
     };
+  };
 
-    const name = getVal(['name', 'title', 'productname', 'producttitle', 'handle', 'itemname']);
-    
-    // Broad fuzzy matching for image columns
-    const imageCol = [
-      'productimageurl', 'productimage', 'image', 'images', 'thumbnail', 
-      'mainimage', 'picture', 'url', 'src', 'img', 'media', 'photo', 'gallery'
-    ];
-    const rawImage = getVal(imageCol);
-    const imageInfo = transformImageUrl(rawImage);
-    
-    const handleId = getVal(['handleid', 'id', 'productid', 'handle', 'sku']) || `item-${index}`;
-    const description = getVal(['description', 'plaindescription', 'productdescription', 'content', 'body', 'excerpt', 'shortdescription']);
-    const price = getVal(['price', 'value', 'pricevalue', 'amount', 'regularprice', 'saleprice', 'cost']);
-    const sku = getVal(['sku', 'code', 'reference', 'partnumber']);
-    const collection = getVal(['collection', 'category', 'type', 'categories', 'tag']);
-    
-    // Size logic: Check column first, then title
-    let size = getVal(['size', 'option1', 'variantinventorysize', 'variantsize', 'optionsize']);
+  return groups.map((group, index) => {
+    const productRow = group.find(row => getVal(row, 'name')) || group[0];
+    const name = getVal(productRow, 'name');
+
+    const images = group.flatMap(row => transformImageUrl(getVal(row, 'imageUrl')))
+      .filter((img, i, all) => all.findIndex(other => other.full === img.full) === i);
+    const imageInfo = images[0] || { full: "", thumb: "" };
+
+    // Wix marks variant rows explicitly; elsewhere any row carrying a price, SKU or
+    // option is a variant, which skips Shopify's image-only rows.
+    const variantRows = sourcePlatform === 'wix'
+      ? group.filter(row => getRaw(row, ['fieldtype']).toLowerCase() === 'variant')
+      : group.filter(row => getVal(row, 'price') || getVal(row, 'sku') || getVal(row, 'size'));
+    const variants = variantRows.map(row => readVariant(row, productRow));
+
+    const handleId = getVal(productRow, 'handleId') || `item-${index}`;
+    const description = getVal(productRow, 'description');
+    const price = getVal(productRow, 'price') || variants[0]?.price || "";
+    const sku = getVal(productRow, 'sku') || variants[0]?.sku || "";
+    const collection = getVal(productRow, 'collection');
+
+    // Size logic: variants first, then the column, then the title
+    const variantSizes = Array.from(new Set(variants.map(v => v.size).filter((v): v is string => !!v)));
+    let size = variantSizes.length ? variantSizes.join(' / ') : getVal(productRow, 'size');
+    if (size === 'Default Title') size = "";
     if (!size) size = extractSizeFromTitle(name);
-    
-    const rawDate = getVal(['date', 'created', 'createdat', 'dateuploaded']);
-    const dateUploaded = rawDate ? new Date(rawDate).getTime() : Date.now() - (index * 1000); 
+
+    const rawDate = getVal(productRow, 'dateUploaded');
+    const dateUploaded = rawDate ? new Date(rawDate).getTime() : Date.now() - (index * 1000);
 
     return {
       handleId,
@@ -155,16 +192,22 @@ export const parseProductCSV = (text: string): Product[] => {
       description,
       imageUrl: imageInfo.full,
       thumbnailUrl: imageInfo.thumb,
+      galleryUrls: images.map(img => img.full),
       price,
       sku,
       collection,
       size,
-      dateUploaded
+      dateUploaded,
+      sourcePlatform,
+      importedValues: { name, price, sku, size, collection, description },
+      variants: variants.length ? variants : undefined,
+      sourceHeaders: rawHeaders,
+      sourceRows: group
     };
   }).filter(p => p.name && p.imageUrl);
 };
 
-function parseCSVRows(text: string): string[][] {
+function parseCSVRows(text: string, delimiter: CsvDelimiter): string[][] {
   const rows: string[][] = [];
   let currentRow: string[] = [];
   let currentField = '';
@@ -178,7 +221,7 @@ function parseCSVRows(text: string): string[][] {
       else currentField += char;
     } else {
       if (char === '"') inQuotes = true;
-      else if (char === ',') { currentRow.push(currentField); currentField = ''; }
+      else if (char === delimiter) { currentRow.push(currentField); currentField = ''; }
       else if (char === '\r' || char === '\n') {
         currentRow.push(currentField);
         if (currentRow.some(field => field.trim().length > 0)) rows.push(currentRow);
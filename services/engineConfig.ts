@@ -0,0 +1,46 @@
+export type EngineProviderId = 'gemini' | 'mock';
+
+export interface EngineConfig {
+  provider: EngineProviderId;
+  textModel: string;
+  imageModel: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+const ENGINE_CONFIG_STORAGE_KEY = 'zimbabalooba_engine_config';
+
+/**
+ * Build-time defaults (see vite.config.ts). ENGINE_PROVIDER=mock runs the whole
+ * app offline; the model names can be pointed at any Gemini model id.
+ */
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  provider: process.env.ENGINE_PROVIDER === 'mock' ? 'mock' : 'gemini',
+  textModel: process.env.ENGINE_TEXT_MODEL || 'gemini-3-flash-preview',
+  imageModel: process.env.ENGINE_IMAGE_MODEL || 'gemini-2.5-flash-image',
+  timeoutMs: 90000,
+  maxRetries: 3
+};
+
+export const getEngineConfig = (): EngineConfig => {
+  try {
+    const saved = localStorage.getItem(ENGINE_CONFIG_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_ENGINE_CONFIG, ...JSON.parse(saved) };
+  } catch (e) {}
+  return DEFAULT_ENGINE_CONFIG;
+};
+
+/**
+ * Persists a runtime override. Empty model names and invalid limits fall back to the build defaults.
+ */
+export const setEngineConfig = (config: EngineConfig): EngineConfig => {
+  const next: EngineConfig = {
+    provider: config.provider,
+    textModel: config.textModel.trim() || DEFAULT_ENGINE_CONFIG.textModel,
+    imageModel: config.imageModel.trim() || DEFAULT_ENGINE_CONFIG.imageModel,
+    timeoutMs: config.timeoutMs > 0 ? config.timeoutMs : DEFAULT_ENGINE_CONFIG.timeoutMs,
+    maxRetries: Number.isFinite(config.maxRetries) ? Math.max(0, Math.floor(config.maxRetries)) : DEFAULT_ENGINE_CONFIG.maxRetries
+  };
+  localStorage.setItem(ENGINE_CONFIG_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
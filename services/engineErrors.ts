@@ -0,0 +1,115 @@
+export type EngineErrorKind = 'safety' | 'quota' | 'auth' | 'network' | 'text_response' | 'timeout' | 'cancelled' | 'unknown';
+
+export interface EngineCallOptions {
+  signal?: AbortSignal;
+}
+
+const ENGINE_ERROR_MESSAGES: Record<EngineErrorKind, string> = {
+  safety: 'Blocked by safety filters. Rephrase the directive or try a different reference image.',
+  quota: 'Rate limit or quota reached. Wait a moment, or check billing on your API project.',
+  auth: 'API key rejected. Select a valid paid project key to continue.',
+  network: 'Could not reach the engine. Check your connection and try again.',
+  text_response: 'The engine replied with text instead of an image.',
+  timeout: 'The engine took too long to respond.',
+  cancelled: 'Render cancelled.',
+  unknown: 'Engine error.'
+};
+
+const RETRYABLE_KINDS: EngineErrorKind[] = ['quota', 'network', 'timeout'];
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 15000;
+
+/**
+ * An engine failure grouped by cause. The message is the user-facing text for
+ * its kind, followed by the backend detail when there is one.
+ */
+export class EngineError extends Error {
+  kind: EngineErrorKind;
+  detail: string;
+
+  constructor(kind: EngineErrorKind, detail = '') {
+    super(detail ? `${ENGINE_ERROR_MESSAGES[kind]} ${detail}` : ENGINE_ERROR_MESSAGES[kind]);
+    this.name = 'EngineError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+const extractStatus = (err: any): number | undefined => {
+  const status = err?.status ?? err?.code;
+  if (typeof status === 'number') return status;
+  const match = String(err?.message || '').match(/"code"\s*:\s*(\d{3})|status:?\s*(\d{3})/i);
+  return match ? parseInt(match[1] || match[2], 10) : undefined;
+};
+
+export const classifyEngineError = (err: any): EngineError => {
+  if (err instanceof EngineError) return err;
+  const message: string = err?.message || String(err);
+  if (err?.name === 'AbortError') return new EngineError('cancelled');
+
+  const status = extractStatus(err);
+  if (status === 401 || status === 403 || /api key|requested entity was not found|permission_denied|unauthenticated/i.test(message)) {
+    return new EngineError('auth');
+  }
+  if (status === 429 || /resource_exhausted|quota|rate limit/i.test(message)) return new EngineError('quota');
+  if ((status && status >= 500) || /unavailable|internal error|failed to fetch|networkerror|network request failed|load failed/i.test(message)) {
+    return new EngineError('network');
+  }
+  if (/safety|blocked|prohibited/i.test(message)) return new EngineError('safety');
+  return new EngineError('unknown', message);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(timer); reject(new EngineError('cancelled')); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Resolves with the call, or rejects as soon as the signal fires, whichever is first.
+// Not every backend stops promptly on abort, so the UI should not have to wait for it.
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+  const onAbort = () => reject(new EngineError('cancelled'));
+  if (signal.aborted) return onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+/**
+ * Runs one engine call with a per-attempt timeout, retrying transient failures
+ * (rate limits, 5xx, network, timeouts) with exponential backoff and jitter.
+ */
+export const runEngineCall = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { signal }: EngineCallOptions,
+  timeoutMs: number,
+  maxRetries: number
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new EngineError('cancelled');
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+      return await raceAbort(call(controller.signal), controller.signal);
+    } catch (err) {
+      const engineError = timedOut
+        ? new EngineError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s.`)
+        : signal?.aborted ? new EngineError('cancelled') : classifyEngineError(err);
+      if (!engineError.retryable || attempt >= maxRetries) throw engineError;
+      const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+      console.warn(`Engine call failed (${engineError.kind}), retry ${attempt + 1}/${maxRetries}`);
+      await sleep(backoff / 2 + Math.random() * backoff / 2, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
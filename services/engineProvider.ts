@@ -0,0 +1,31 @@
+import { AspectRatio, FitProfile, MaskRegion } from "../types";
+import { getEngineConfig } from "./engineConfig";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+// One checklist verdict from a brand QA pass
+export interface RuleVerdict {
+  id: string;
+  passed: boolean;
+  note?: string;
+}
+
+/**
+ * The model-facing operations the engine needs. Prompt assembly stays in
+ * geminiService.ts; providers only move prompts and images to a backend.
+ */
+export interface EngineProvider {
+  analyzeFit: (prompt: string, images: InlineImage[], model: string, signal: AbortSignal) => Promise<FitProfile>;
+  writeText: (prompt: string, images: InlineImage[], model: string, signal: AbortSignal) => Promise<string>;
+  renderImage: (prompt: string, images: InlineImage[], aspectRatio: AspectRatio, model: string, signal: AbortSignal) => Promise<string>;
+  detectRegions: (prompt: string, images: InlineImage[], model: string, signal: AbortSignal) => Promise<MaskRegion[]>;
+  checkRules: (prompt: string, images: InlineImage[], model: string, signal: AbortSignal) => Promise<RuleVerdict[]>;
+}
+
+export const getEngineProvider = (): EngineProvider =>
+  getEngineConfig().provider === 'mock' ? mockProvider : geminiProvider;
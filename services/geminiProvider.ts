@@ -0,0 +1,141 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { FitProfile, MaskRegion } from "../types";
+import { EngineProvider, InlineImage, RuleVerdict } from "./engineProvider";
+import { EngineError } from "./engineErrors";
+
+let client: GoogleGenAI | null = null;
+let clientKey: string | undefined;
+
+// The key can change at runtime (AI Studio key picker), so the client is rebuilt when it does
+const getClient = (): GoogleGenAI => {
+  const apiKey = process.env.API_KEY;
+  if (!client || clientKey !== apiKey) {
+    client = new GoogleGenAI({ apiKey });
+    clientKey = apiKey;
+  }
+  return client;
+};
+
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+const toParts = (prompt: string, images: InlineImage[]) => [
+  { text: prompt },
+  ...images.map(img => ({ inlineData: { data: img.data, mimeType: img.mimeType } }))
+];
+
+export const geminiProvider: EngineProvider = {
+  analyzeFit: async (prompt, images, model, signal) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: toParts(prompt, images) },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            description: { type: Type.STRING },
+            specs: {
+              type: Type.OBJECT,
+              properties: {
+                silhouette: { type: Type.STRING },
+                waistline: { type: Type.STRING },
+                texture: { type: Type.STRING },
+                drape: { type: Type.STRING },
+              },
+              required: ['silhouette', 'waistline', 'texture', 'drape'],
+            },
+          },
+          required: ['description', 'specs'],
+        },
+      }
+    });
+    return JSON.parse(response.text!) as FitProfile;
+  },
+
+  writeText: async (prompt, images, model, signal) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: images.length ? { parts: toParts(prompt, images) } : prompt,
+      config: { abortSignal: signal }
+    });
+    return response.text || "";
+  },
+
+  renderImage: async (prompt, images, aspectRatio, model, signal) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: toParts(prompt, images) },
+      config: { abortSignal: signal, imageConfig: { aspectRatio } }
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+      throw new EngineError('safety', `(${blockReason || finishReason})`);
+    }
+
+    const imgPart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    if (!imgPart?.inlineData) {
+      const textPart = response.candidates?.[0]?.content?.parts?.find(p => p.text);
+      if (textPart?.text) {
+        console.warn("Model response:", textPart.text);
+        throw new EngineError('text_response', `"${textPart.text.substring(0, 100)}..."`);
+      }
+      throw new EngineError('safety', 'No image was returned; the prompt may have been filtered.');
+    }
+
+    return `data:${imgPart.inlineData.mimeType || 'image/png'};base64,${imgPart.inlineData.data}`;
+  },
+
+  detectRegions: async (prompt, images, model, signal) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: toParts(prompt, images) },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING },
+              box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+            },
+            required: ['label', 'box_2d'],
+          },
+        },
+      }
+    });
+    const detections = JSON.parse(response.text || '[]') as { label: string; box_2d: number[] }[];
+    return detections
+      .filter(d => d.box_2d?.length === 4)
+      .map(d => ({ label: d.label, box: d.box_2d as MaskRegion['box'] }));
+  },
+
+  checkRules: async (prompt, images, model, signal) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: toParts(prompt, images) },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              rule_id: { type: Type.STRING },
+              passed: { type: Type.BOOLEAN },
+              note: { type: Type.STRING },
+            },
+            required: ['rule_id', 'passed'],
+          },
+        },
+      }
+    });
+    const verdicts = JSON.parse(response.text || '[]') as { rule_id: string; passed: boolean; note?: string }[];
+    return verdicts.map((v): RuleVerdict => ({ id: v.rule_id, passed: !!v.passed, note: v.note || undefined }));
+  }
+};
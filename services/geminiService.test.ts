@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Ethnicity, FitProfile } from '../types';
+import { RuleVerdict } from './engineProvider';
+import { auditBrandGuardrails, buildBrandQaRules, buildFashionMetaPrompt, buildQaFixDirective } from './geminiService';
+import { SIGNATURE_BRAND_PROFILE } from './brandRules';
+import { BUILT_IN_LOCATIONS, BUILT_IN_POSES } from './scenes';
+
+const PROFILE: FitProfile = {
+  description: 'A high-rise, voluminous trouser.',
+  specs: {
+    silhouette: 'Architectural Taper with Pooled Hems',
+    waistline: 'Gathered Elastic with Invisible Cord',
+    texture: 'High-density Cotton Canvas',
+    drape: 'Structural volume with ankle stacking'
+  }
+};
+
+const checkRules = vi.hoisted(() => vi.fn<() => Promise<RuleVerdict[]>>());
+vi.mock('./engineProvider', () => ({ getEngineProvider: () => ({ checkRules }) }));
+
+const [SHOP_DISPLAY, EVERYDAY] = BUILT_IN_LOCATIONS;
+const [RELAXED_STANDING] = BUILT_IN_POSES;
+
+const SCALES = [0.5, 1, 1.5];
+const BRIGHTNESS = [-20, 0, 20];
+const MASKS = [false, true];
+
+const COMBINATIONS = SCALES.flatMap(scale => BRIGHTNESS.flatMap(brightness => MASKS.map(mask => ({ scale, brightness, mask }))));
+
+describe('buildFashionMetaPrompt', () => {
+  it.each(COMBINATIONS)('scale $scale, brightness $brightness, mask $mask', ({ scale, brightness, mask }) => {
+    const prompt = buildFashionMetaPrompt(
+      PROFILE, Ethnicity.BLACK_AFRICAN, 'Female', 'Athletic', scale, brightness, EVERYDAY, RELAXED_STANDING,
+      { refinementInstruction: mask ? 'Sharpen the hem labels.' : undefined, hasMask: mask }
+    );
+    expect(prompt).toMatchSnapshot();
+  });
+
+  it('adds the framing rule, extra references and a locked identity', () => {
+    const prompt = buildFashionMetaPrompt(
+      PROFILE, Ethnicity.EAST_ASIAN, 'Male', 'Slim', 1, 0, SHOP_DISPLAY, RELAXED_STANDING,
+      { referenceCount: 3, identity: { description: 'Short black hair, angular jaw.', anchorImageUrl: 'data:image/png;base64,AAAA' } }
+    );
+    expect(prompt).toMatchSnapshot();
+  });
+});
+
+describe('auditBrandGuardrails', () => {
+  const ruleIds = buildBrandQaRules(PROFILE, SIGNATURE_BRAND_PROFILE).map(r => r.id);
+
+  it('passes when every rule has a passing verdict', async () => {
+    checkRules.mockResolvedValueOnce(ruleIds.map(id => ({ id, passed: true })));
+    const report = await auditBrandGuardrails('data:image/png;base64,AAAA', PROFILE);
+    expect(report.passed).toBe(true);
+  });
+
+  it('fails rules the engine returned no verdict for', async () => {
+    const [answered, ...skipped] = ruleIds;
+    checkRules.mockResolvedValueOnce([{ id: answered, passed: true }]);
+    const report = await auditBrandGuardrails('data:image/png;base64,AAAA', PROFILE);
+    expect(report.passed).toBe(false);
+    expect(report.checks.filter(c => !c.passed).map(c => c.ruleId)).toEqual(skipped);
+    expect(report.checks.find(c => c.ruleId === skipped[0])?.note).toMatch(/not checked/i);
+    expect(buildQaFixDirective(report, PROFILE)).not.toBe('');
+  });
+
+  it('fails every rule on an empty reply', async () => {
+    checkRules.mockResolvedValueOnce([]);
+    const report = await auditBrandGuardrails('data:image/png;base64,AAAA', PROFILE);
+    expect(report.passed).toBe(false);
+    expect(report.checks.every(c => !c.passed)).toBe(true);
+  });
+});
@@ -1,207 +1,329 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { ImageState, Ethnicity, FitProfile, AspectRatio, PoseStyle, Product, ModelPose, BodyShape, Gender } from "../types";
+import { ImageState, Ethnicity, FitProfile, AspectRatio, Product, BodyShape, SceneOption, Gender, CopyTone, AutoMaskTarget, MaskRegion, BrandQaReport, BrandRuleProfile, ModelIdentity, CastModel } from "../types";
+import { SIGNATURE_BRAND_PROFILE } from "./brandRules";
+import { BODY_SHAPE_PROMPTS, describeLocation } from "./scenes";
+import { getEngineProvider, InlineImage } from "./engineProvider";
+import { getEngineConfig } from "./engineConfig";
+import { EngineCallOptions, runEngineCall } from "./engineErrors";
 
-export const createFitProfile = async (images: ImageState[]): Promise<FitProfile> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const toInlineImage = (image: ImageState): InlineImage => ({ data: image.base64, mimeType: image.mimeType });
+
+// Accepts either a data URL or a bare base64 payload (assumed PNG)
+const dataUrlToInlineImage = (value: string): InlineImage => {
+  if (!value.includes('base64,')) return { data: value, mimeType: 'image/png' };
+  const [header, data] = value.split('base64,');
+  return { data, mimeType: header.match(/data:([^;]+)/)?.[1] || 'image/png' };
+};
+
+export const createFitProfile = async (images: ImageState[], options: EngineCallOptions = {}): Promise<FitProfile> => {
+  const { textModel, timeoutMs, maxRetries } = getEngineConfig();
   const prompt = `Analyze this batch of reference photos for a specific trouser design. Synthesize a "Master Blueprint" defining architectural constants and physics engine data. Focus strictly on construction and fit architecture. Return JSON.`;
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        { text: prompt },
-        ...images.map(img => ({ inlineData: { data: img.base64, mimeType: img.mimeType } }))
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          description: { type: Type.STRING },
-          specs: {
-            type: Type.OBJECT,
-            properties: {
-              silhouette: { type: Type.STRING },
-              waistline: { type: Type.STRING },
-              texture: { type: Type.STRING },
-              drape: { type: Type.STRING },
-            },
-            required: ['silhouette', 'waistline', 'texture', 'drape'],
-          },
-        },
-        required: ['description', 'specs'],
-      },
-    }
-  });
-  return JSON.parse(response.text!) as FitProfile;
+  return runEngineCall(signal => getEngineProvider().analyzeFit(prompt, images.map(toInlineImage), textModel, signal), options, timeoutMs, maxRetries);
+};
+
+const describeBrandRules = (brand: BrandRuleProfile): string => {
+  const line = (kind: 'must' | 'must_not') => brand.rules
+    .filter(r => r.kind === kind)
+    .map(r => `- ${r.label.toUpperCase()}: ${r.text}`)
+    .join('\n    ');
+  const must = line('must');
+  const mustNot = line('must_not');
+  return [must && `MUST HAVE:\n    ${must}`, mustNot && `MUST NOT HAVE:\n    ${mustNot}`].filter(Boolean).join('\n    ');
+};
+
+const describeCopyTone = (tone: CopyTone): string => {
+  switch (tone) {
+    case "Poetic": return "Keep it poetic but informative.";
+    case "Minimal": return "Keep it spare and confident: two or three short sentences, no flourishes.";
+    case "Playful": return "Keep it playful and warm, with a light wink, while staying informative.";
+    case "Technical": return "Keep it precise and technical: construction, fabric weight and fit details first.";
+  }
 };
 
-export const generateDescription = async (product: Partial<Product>): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export interface DescriptionOptions {
+  // Fit blueprint whose specs the copy may describe
+  profile?: FitProfile;
+  brand?: BrandRuleProfile;
+  // Defaults to the brand's own copy tone
+  tone?: CopyTone;
+}
+
+export const generateDescription = async (
+  product: Partial<Product>,
+  options: DescriptionOptions & EngineCallOptions = {}
+): Promise<string> => {
+  const { profile, brand = SIGNATURE_BRAND_PROFILE, tone = brand.copyTone } = options;
+  const { textModel, timeoutMs, maxRetries } = getEngineConfig();
   const prompt = `
-    You are the Lead Copywriter for Zimbabalooba. 
+    You are the ${brand.persona}. 
     Generate a short, high-end fashion product description for: "${product.name}". 
     Include details about its unique silhouette, fit, and architectural style. 
-    Keep it poetic but informative. 
-    Context: Price ${product.price}, SKU ${product.sku || 'N/A'}.
-    No intros, just the description text.
+    ${describeCopyTone(tone)}
+    Context: Price ${product.price}, SKU ${product.sku || 'N/A'}${product.size ? `, Size ${product.size}` : ''}${product.collection ? `, Collection ${product.collection}` : ''}.
+    ${profile ? `Fit blueprint: ${profile.description} Silhouette: ${profile.specs.silhouette}. Waistline: ${profile.specs.waistline}. Texture: ${profile.specs.texture}. Drape: ${profile.specs.drape}.` : ''}
+    ${describeBrandRules(brand)}
+    Only mention features the rules allow. No intros, just the description text.
   `;
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt
-  });
-  return response.text || "";
+  return runEngineCall(signal => getEngineProvider().writeText(prompt, [], textModel, signal), options, timeoutMs, maxRetries);
 };
 
-export const generateFashionPrompt = async (
+/**
+ * Writes a reusable description of the model in a render so later lookbook
+ * shots can cast the same person.
+ */
+export const describeModelIdentity = async (imageUrl: string, options: EngineCallOptions = {}): Promise<string> => {
+  const { textModel, timeoutMs, maxRetries } = getEngineConfig();
+  const prompt = `Write a casting note describing the model in this photograph so the same person can be cast again exactly: face shape and features, skin tone, hair color, length and style, apparent age and build. Describe only the person, not the clothing, pose or setting. One compact paragraph.`;
+  const text = await runEngineCall(signal => getEngineProvider().writeText(prompt, [dataUrlToInlineImage(imageUrl)], textModel, signal), options, timeoutMs, maxRetries);
+  return text.trim();
+};
+
+/**
+ * Renders a neutral casting headshot for a library model, used as its identity anchor.
+ */
+export const synthesizeCastHeadshot = async (cast: CastModel, options: EngineCallOptions = {}): Promise<string> => {
+  const { imageModel, timeoutMs, maxRetries } = getEngineConfig();
+  const prompt = `Casting agency headshot photograph of a fashion model: ${cast.gender} of ${cast.ethnicity} ethnicity, aged ${cast.ageRange}, ${cast.bodyShape.toLowerCase()} build, ${cast.height ? `${cast.height} tall, ` : ''}${cast.hair ? `${cast.hair} hair` : 'natural hair'}. ${cast.notes} Head and shoulders, neutral expression, plain light grey backdrop, soft even studio light, photorealistic.`;
+  return runEngineCall(signal => getEngineProvider().renderImage(prompt, [], "1:1", imageModel, signal), options, timeoutMs, maxRetries);
+};
+
+/**
+ * Turns the Studio pattern scale slider (1.0 = true to reference) into a print-scale directive.
+ */
+const describePatternScale = (factor: number): string => {
+  const percent = Math.round(factor * 100);
+  if (Math.abs(factor - 1) < 0.05) return "Reproduce the print at its true scale from the reference.";
+  if (factor < 1) return `Scale the print DOWN to roughly ${percent}% of the reference size: smaller, denser motifs with more repeats across each leg.`;
+  return `Scale the print UP to roughly ${percent}% of the reference size: larger, bolder motifs with fewer repeats across each leg.`;
+};
+
+/**
+ * Turns the Studio brightness slider (percentage offset, 0 = untouched) into a color directive.
+ */
+const describeColorBrightness = (factor: number): string => {
+  if (factor === 0) return "Match the reference fabric colors exactly.";
+  if (factor > 0) return `Lift the fabric color brightness by about ${factor}% compared to the reference while keeping every hue true.`;
+  return `Deepen the fabric colors, about ${Math.abs(factor)}% darker than the reference while keeping every hue true.`;
+};
+
+export interface FashionPromptOptions {
+  // Turns the prompt into an edit of an existing render
+  refinementInstruction?: string;
+  hasMask?: boolean;
+  // Free-text setting used when the location is "Custom"
+  manualLocation?: string;
+  brand?: BrandRuleProfile;
+  identity?: ModelIdentity;
+}
+
+/**
+ * Assembles the brand director meta-prompt. Kept free of network calls so the
+ * exact text sent to the engine can be inspected for any combination of settings.
+ */
+export const buildFashionMetaPrompt = (
   profile: FitProfile,
-  patternImage: ImageState,
   ethnicity: Ethnicity,
   gender: Gender,
   bodyShape: BodyShape,
   patternScaleFactor: number,
   colorBrightnessFactor: number,
-  locationStyle: PoseStyle,
-  modelPose: ModelPose,
-  refinementInstruction?: string,
-  hasMask?: boolean,
-  manualLocation?: string
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  let locationPrompt = "";
-  switch (locationStyle) {
-    case "Outdoor": 
-      locationPrompt = "in an epic outdoor vista, perhaps a desert dune or mountain pass, in golden hour natural sunlight. Cinematic atmosphere."; 
-      break;
-    case "Shop Display": 
-      locationPrompt = "in a pristine, minimalist fashion studio. Clean, off-white studio wall with subtle texture, and a light natural wooden floor. High-end e-commerce catalog style. Professional lighting: bright, soft, and completely even with minimal soft shadows. Clean boutique aesthetic."; 
-      break;
-    case "Urban": 
-      locationPrompt = "in a sleek metropolitan downtown area, glass skyscrapers in the background, sharp urban shadows, cool modern vibe."; 
-      break;
-    case "Everyday":
-      locationPrompt = "in a natural, relatable lifestyle setting like a bright minimalist apartment or a sun-drenched cafe. Warm, soft ambient light. Casual and authentic atmosphere.";
-      break;
-    case "Custom":
-      locationPrompt = manualLocation ? `in the following setting: ${manualLocation}.` : "in a professional studio setting.";
-      break;
-  }
-
-  let posePrompt = "";
-  switch (modelPose) {
-    case "Relaxed Standing": posePrompt = "The model is standing naturally with a relaxed posture, hands casually at sides or one hand partially in a pocket. Front-on perspective."; break;
-    case "Walking Motion": posePrompt = "The model is captured mid-stride, showcasing the fluid drape and stacking of the fabric around the ankles. Dynamic but poised."; break;
-    case "Seated Casual": posePrompt = "The model is sitting on a minimalist concrete block or simple chair, highlighting the volume in the seat and thigh area."; break;
-    case "Side Profile": posePrompt = "A sharp side-on view to emphasize the architectural taper and clean silhouette profile."; break;
-    case "Back Architecture": posePrompt = "A rear-view shot focusing on the high-rise waistband and the way the fabric pools at the hem."; break;
-  }
-
-  let bodyPrompt = "";
-  switch (bodyShape) {
-    case "Slim": bodyPrompt = "slender build"; break;
-    case "Athletic": bodyPrompt = "athletic build"; break;
-    case "Chubby": bodyPrompt = "soft rounded archetype"; break;
-    case "Overweight": bodyPrompt = "larger figure archetype"; break;
-    case "Muscular": bodyPrompt = "muscular physique"; break;
-    case "Curvy": bodyPrompt = "curvy hourglass figure"; break;
-  }
-
+  location: SceneOption,
+  pose: SceneOption,
+  options: FashionPromptOptions & { referenceCount?: number } = {}
+): string => {
+  const { refinementInstruction, hasMask, manualLocation, referenceCount = 1, brand = SIGNATURE_BRAND_PROFILE, identity } = options;
   const isRefinement = !!refinementInstruction;
 
-  const metaPrompt = `
-    ACT AS THE ZIMBABALOOBA BRAND DIRECTOR.
+  return `
+    ACT AS THE ${brand.brandName.toUpperCase()} BRAND DIRECTOR.
     
     TASK: ${isRefinement ? 'SMART REFINEMENT / "FIX" OPERATION' : 'NEW VISION SYNTHESIS'}
     ${isRefinement ? `REFINEMENT DIRECTIVE: "${refinementInstruction}"` : ''}
 
     BRAND ARCHITECTURE:
-    - WAIST: Heavy gathered elasticated waistband with an INVISIBLE INTERNAL DRAWSTRING. NO thick rope cords.
-    - HEM: Twin oval Zimbabalooba brand labels on lower leg hems. Sharp, clear, precisely placed.
-    - NO THIGH PATCHES.
-    - FABRIC: High-quality ${profile.specs.texture}. Accurate pattern reproduction from reference.
+    ${describeBrandRules(brand)}
+
+    FIT BLUEPRINT:
+    - FABRIC: High-quality ${profile.specs.texture}.
     - SILHOUETTE: ${profile.specs.silhouette}. Architectural volume stacking at ankles.
-    
+    - WAISTLINE SPEC: ${profile.specs.waistline}.
+    - DRAPE: ${profile.specs.drape}.
+    - PATTERN SCALE: ${describePatternScale(patternScaleFactor)}
+    - COLOR: ${describeColorBrightness(colorBrightnessFactor)}
+    ${referenceCount > 1 ? `
+    REFERENCES:
+    - ${referenceCount} reference images of the same garment are attached. The first is the primary pattern reference.
+    - Use the others (alternate angles, back view, fabric close-ups) to reproduce construction and print detail faithfully.` : ''}
+    ${hasMask ? `
+    MASKED EDIT:
+    - A black-and-white mask accompanies the source image. Edit ONLY the white masked region.
+    - Everything outside the mask (model, garment, background, lighting) must remain pixel-identical to the source image.` : ''}
+
     MODEL & SETTING:
-    - Model: ${gender} of ${ethnicity} ethnicity, ${bodyPrompt}.
-    - Pose: ${posePrompt}.
-    - Environment: ${locationPrompt}.
-    ${locationStyle === "Shop Display" ? "CRITICAL: Frame the shot from the waist down to the feet. Head and upper torso are cropped out. The focus is entirely on the trousers and shoes (simple slippers or barefoot). Minimalist e-commerce catalog shot." : ""}
+    - Model: ${gender} of ${ethnicity} ethnicity, ${BODY_SHAPE_PROMPTS[bodyShape]}.
+    ${identity ? `
+    MODEL IDENTITY (LOCKED):
+    - Cast this exact person${identity.anchorImageUrl ? ', shown in the identity anchor (the last attached image)' : ''}: ${identity.description}
+    - Face, skin tone, hair and build must stay identical across every shot. Only the pose and framing change.` : ''}
+    - Pose: ${pose.prompt}.
+    - Environment: ${describeLocation(location, manualLocation)}.
+    ${location.framing ? `CRITICAL: ${location.framing}` : ""}
     - Quality: High-fidelity fashion photography, 8k resolution, photorealistic textures, professional studio grade.
 
     Provide a concise, highly descriptive visual prompt.
   `;
+};
 
-  const result = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        { text: metaPrompt },
-        { inlineData: { data: patternImage.base64, mimeType: patternImage.mimeType } }
-      ]
-    }
-  });
-  return result.text || "";
+export const generateFashionPrompt = async (
+  profile: FitProfile,
+  referenceImages: ImageState[],
+  ethnicity: Ethnicity,
+  gender: Gender,
+  bodyShape: BodyShape,
+  patternScaleFactor: number,
+  colorBrightnessFactor: number,
+  location: SceneOption,
+  pose: SceneOption,
+  options: FashionPromptOptions & EngineCallOptions = {}
+): Promise<string> => {
+  const { textModel, timeoutMs, maxRetries } = getEngineConfig();
+  const metaPrompt = buildFashionMetaPrompt(
+    profile,
+    ethnicity,
+    gender,
+    bodyShape,
+    patternScaleFactor,
+    colorBrightnessFactor,
+    location,
+    pose,
+    { ...options, referenceCount: referenceImages.length }
+  );
+
+  const images = referenceImages.map(toInlineImage);
+  if (options.identity?.anchorImageUrl) images.push(dataUrlToInlineImage(options.identity.anchorImageUrl));
+  return runEngineCall(signal => getEngineProvider().writeText(metaPrompt, images, textModel, signal), options, timeoutMs, maxRetries);
 };
 
+export interface FashionImageOptions {
+  // The render being edited; references are only sent for new renders
+  sourceImage?: string;
+  maskImage?: string;
+  referenceImages?: ImageState[];
+  identityImage?: string;
+}
+
 export const synthesizeFashionImage = async (
   prompt: string, 
   aspectRatio: AspectRatio,
-  sourceImage?: string,
-  maskImage?: string,
-  referenceImage?: ImageState
+  options: FashionImageOptions & EngineCallOptions = {}
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const parts: any[] = [];
+  const { imageModel, timeoutMs, maxRetries } = getEngineConfig();
+  const { sourceImage, maskImage, referenceImages = [], identityImage } = options;
+  const images: InlineImage[] = [];
   
   // Clean the prompt to remove potential markdown wrappers that can confuse the image model
   const cleanPrompt = prompt.replace(/```[a-z]*\n?/gi, '').replace(/```/g, '').trim();
-  parts.push({ text: cleanPrompt });
-
-  // Add reference image to provide visual context for pattern and fit
-  if (referenceImage && !sourceImage) {
-    parts.push({ 
-      inlineData: { 
-        data: referenceImage.base64, 
-        mimeType: referenceImage.mimeType 
-      } 
-    });
-  }
-  
-  if (sourceImage) {
-    parts.push({ 
-      inlineData: { 
-        data: sourceImage.includes('base64,') ? sourceImage.split('base64,')[1] : sourceImage, 
-        mimeType: 'image/png' 
-      } 
-    });
-  }
-  
-  if (maskImage) {
-    parts.push({ 
-      inlineData: { 
-        data: maskImage.includes('base64,') ? maskImage.split('base64,')[1] : maskImage, 
-        mimeType: 'image/png' 
-      } 
-    });
+
+  // Add reference images to provide visual context for pattern and fit
+  if (!sourceImage) images.push(...referenceImages.map(toInlineImage));
+  if (sourceImage) images.push(dataUrlToInlineImage(sourceImage));
+  if (maskImage) images.push(dataUrlToInlineImage(maskImage));
+  // The identity anchor goes last, where the lookbook prompt says to find it
+  if (identityImage) images.push(dataUrlToInlineImage(identityImage));
+
+  return runEngineCall(signal => getEngineProvider().renderImage(cleanPrompt, images, aspectRatio, imageModel, signal), options, timeoutMs, maxRetries);
+};
+
+/**
+ * What each auto-mask target asks the engine to find. Background is found by
+ * locating the person and inverting the result.
+ */
+export const AUTO_MASK_TARGETS: Record<AutoMaskTarget, { label: string; query: string; invert?: boolean }> = {
+  waistband: { label: 'Waistband', query: 'the gathered waistband at the top of the trousers' },
+  hem_labels: { label: 'Hem Labels', query: 'each oval brand label near the lower leg hems' },
+  shoes: { label: 'Shoes', query: "each of the model's shoes" },
+  trousers: { label: 'Full Trousers', query: 'the whole pair of trousers worn by the model' },
+  background: { label: 'Background', query: 'the person, from head to feet', invert: true }
+};
+
+export const locateMaskRegions = async (
+  imageUrl: string,
+  target: AutoMaskTarget,
+  options: EngineCallOptions = {}
+): Promise<{ regions: MaskRegion[]; invert: boolean }> => {
+  const { textModel, timeoutMs, maxRetries } = getEngineConfig();
+  const { query, invert } = AUTO_MASK_TARGETS[target];
+  const prompt = `Detect ${query} in this fashion photograph. Return a JSON array with one entry per instance: "label" and "box_2d" as [ymin, xmin, ymax, xmax] normalized to 0-1000. Return an empty array if none is visible.`;
+  const images = [dataUrlToInlineImage(imageUrl)];
+  const regions = await runEngineCall(signal => getEngineProvider().detectRegions(prompt, images, textModel, signal), options, timeoutMs, maxRetries);
+  return { regions, invert: !!invert };
+};
+
+export interface BrandQaRule {
+  id: string;
+  label: string;
+  // What the inspector checks for, phrased as a yes/no requirement
+  requirement: string;
+  // Refinement directive used when the rule fails
+  fix: string;
+}
+
+/**
+ * The brand profile's rules restated as a checklist, plus the active
+ * blueprint's own silhouette and waistline specs.
+ */
+export const buildBrandQaRules = (profile: FitProfile, brand: BrandRuleProfile): BrandQaRule[] => [
+  ...brand.rules.map(rule => rule.kind === 'must'
+    ? { id: rule.id, label: rule.label, requirement: `Present: ${rule.text}`, fix: `Make sure of the following: ${rule.text}` }
+    : { id: rule.id, label: `No ${rule.label}`, requirement: `Absent (must NOT appear): ${rule.text}`, fix: `Remove the following entirely: ${rule.text}` }),
+  {
+    id: 'silhouette',
+    label: 'Silhouette',
+    requirement: `The trousers follow this silhouette: ${profile.specs.silhouette}, with volume stacking at the ankles.`,
+    fix: `Correct the trouser silhouette to: ${profile.specs.silhouette}, with architectural volume stacking at the ankles.`
+  },
+  {
+    id: 'waistline',
+    label: 'Waistline Spec',
+    requirement: `The waistline matches: ${profile.specs.waistline}.`,
+    fix: `Correct the waistline to match: ${profile.specs.waistline}.`
   }
+];
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts },
-    config: { imageConfig: { aspectRatio } }
+/**
+ * Sends a finished render back to the engine with the brand checklist and
+ * returns a pass/fail verdict per rule. A rule the engine returns no verdict
+ * for (a truncated or partial reply) counts as failed, never as passed.
+ */
+export const auditBrandGuardrails = async (
+  imageUrl: string,
+  profile: FitProfile,
+  brand: BrandRuleProfile = SIGNATURE_BRAND_PROFILE,
+  options: EngineCallOptions = {}
+): Promise<BrandQaReport> => {
+  const { textModel, timeoutMs, maxRetries } = getEngineConfig();
+  const rules = buildBrandQaRules(profile, brand);
+  const prompt = `You are the ${brand.brandName} quality inspector. Check this product photograph against each rule below.
+${rules.map(r => `- [${r.id}] ${r.requirement}`).join('\n')}
+Return a JSON array with one entry per rule: "rule_id" (the id in brackets), "passed" (boolean) and a short "note" explaining any failure. If the relevant area is out of frame, mark the rule passed and say so in the note.`;
+  const verdicts = await runEngineCall(signal => getEngineProvider().checkRules(prompt, [dataUrlToInlineImage(imageUrl)], textModel, signal), options, timeoutMs, maxRetries);
+  const checks = rules.map(rule => {
+    const verdict = verdicts.find(v => v.id === rule.id);
+    return verdict
+      ? { ruleId: rule.id, label: rule.label, passed: verdict.passed, note: verdict.note }
+      : { ruleId: rule.id, label: rule.label, passed: false, note: 'Not checked: the inspector returned no verdict for this rule.' };
   });
+  return { passed: checks.every(c => c.passed), checks, checkedAt: Date.now() };
+};
 
-  const imgPart = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-  if (!imgPart) {
-     const textPart = response.candidates?.[0]?.content?.parts.find(p => p.text);
-     if (textPart) {
-       console.warn("Model response:", textPart.text);
-       throw new Error(`Engine returned text: ${textPart.text.substring(0, 100)}...`);
-     }
-     throw new Error("Engine failed to generate an image part. This may be due to safety filters or an invalid prompt.");
-  }
-  
-  return `data:image/png;base64,${imgPart.inlineData.data}`;
+/**
+ * Joins the fixes for every failed rule into a single refinement directive.
+ */
+export const buildQaFixDirective = (report: BrandQaReport, profile: FitProfile, brand: BrandRuleProfile = SIGNATURE_BRAND_PROFILE): string => {
+  const rules = buildBrandQaRules(profile, brand);
+  return report.checks
+    .filter(c => !c.passed)
+    .map(c => rules.find(r => r.id === c.ruleId)?.fix)
+    .filter(Boolean)
+    .join(' ');
 };
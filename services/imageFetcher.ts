@@ -0,0 +1,32 @@
+import { ImageState } from "../types";
+
+/**
+ * Reads a Blob into the raw base64 payload expected by the engine (no data URL prefix).
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Downloads a remote product image into an ImageState.
+ * Throws when the host refuses CORS or responds with an error status.
+ */
+export const fetchImageAsState = async (url: string): Promise<ImageState> => {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) throw new Error(`Asset fetch failed (${response.status}).`);
+  const blob = await response.blob();
+  const base64 = await blobToBase64(blob);
+  return { base64, mimeType: blob.type || 'image/jpeg', previewUrl: url };
+};
+
+/**
+ * Reads a local file picked by the user into an ImageState.
+ */
+export const fileToImageState = async (file: File): Promise<ImageState> => ({
+  base64: await blobToBase64(file),
+  mimeType: file.type || 'image/jpeg',
+  previewUrl: URL.createObjectURL(file)
+});
@@ -0,0 +1,97 @@
+import { ImageProbe, Product } from "../types";
+
+const PROBE_TIMEOUT_MS = 15000;
+
+// <img> loads without CORS, so this tells "blocked for fetch" apart from "dead link"
+const loadViaImageElement = (url: string): Promise<{ width: number; height: number } | null> => new Promise(resolve => {
+  const img = new Image();
+  const timer = setTimeout(() => { img.src = ''; resolve(null); }, PROBE_TIMEOUT_MS);
+  img.onload = () => { clearTimeout(timer); resolve({ width: img.naturalWidth, height: img.naturalHeight }); };
+  img.onerror = () => { clearTimeout(timer); resolve(null); };
+  img.src = url;
+});
+
+const readDimensions = async (blob: Blob): Promise<{ width?: number; height?: number }> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * Checks whether the engine can download an image (CORS fetch) and, when it
+ * cannot, whether the browser can at least display it.
+ */
+export const probeImage = async (url: string): Promise<ImageProbe> => {
+  const checkedAt = Date.now();
+  if (!url) return { status: 'missing', checkedAt };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { mode: 'cors', signal: controller.signal });
+    if (!response.ok) return { status: 'broken', httpStatus: response.status, checkedAt };
+    const blob = await response.blob();
+    if (blob.type && !blob.type.startsWith('image/')) return { status: 'broken', httpStatus: response.status, mimeType: blob.type, checkedAt };
+    return { status: 'ok', httpStatus: response.status, mimeType: blob.type || undefined, ...(await readDimensions(blob)), checkedAt };
+  } catch (e) {
+    const size = await loadViaImageElement(url);
+    return size ? { status: 'cors_blocked', ...size, checkedAt } : { status: 'broken', checkedAt };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const probeProductImages = async (product: Product): Promise<NonNullable<Product['imageCheck']>> => {
+  const image = await probeImage(product.imageUrl);
+  const thumbnail = product.thumbnailUrl && product.thumbnailUrl !== product.imageUrl
+    ? await probeImage(product.thumbnailUrl)
+    : undefined;
+  return { image, thumbnail };
+};
+
+/**
+ * Probes products a few at a time, reporting each result as it arrives.
+ */
+export const probeInventoryImages = async (
+  products: Product[],
+  onResult: (handleId: string, check: NonNullable<Product['imageCheck']>) => void,
+  concurrency = 4
+): Promise<void> => {
+  const queue = [...products];
+  const worker = async () => {
+    while (queue.length) {
+      const product = queue.shift()!;
+      onResult(product.handleId, await probeProductImages(product));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
+
+export const needsManualUpload = (product: Product): boolean =>
+  !product.localImageId && product.imageCheck?.image.status === 'cors_blocked';
+
+export const hasBrokenImage = (product: Product): boolean => {
+  if (product.localImageId) return false;
+  const { image, thumbnail } = product.imageCheck || {};
+  return image?.status === 'broken' || image?.status === 'missing' || thumbnail?.status === 'broken';
+};
+
+const fileStem = (value: string): string =>
+  (value.split(/[?#]/)[0].split('/').pop() || '').replace(/\.[a-z0-9]+$/i, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Finds the product a local file belongs to by its name: handle, SKU, or the
+ * file name of the product's original image URL.
+ */
+export const matchFileToProduct = (fileName: string, products: Product[]): Product | undefined => {
+  const stem = fileStem(fileName);
+  if (!stem) return undefined;
+  const keysFor = (p: Product) => [p.handleId, p.sku || '', fileStem(p.imageUrl)].map(k => k.toLowerCase().replace(/[^a-z0-9]/g, '')).filter(Boolean);
+  return products.find(p => keysFor(p).includes(stem))
+    || products.find(p => keysFor(p).some(k => k.length >= 4 && stem.startsWith(k)));
+};
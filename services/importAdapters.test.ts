@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { IMPORT_ADAPTERS, pickImportAdapter } from './importAdapters';
+
+const jsonAdapter = IMPORT_ADAPTERS.find(a => a.id === 'json')!;
+
+describe('JSON import adapter', () => {
+  it('reads a Shopify products.json dump', () => {
+    const text = JSON.stringify({
+      products: [{
+        handle: 'baggy-jeans',
+        title: 'Baggy Jeans',
+        body_html: '<p>Painted denim.</p>',
+        product_type: 'Jeans',
+        options: [{ name: 'Size' }],
+        images: [{ src: 'https://cdn.example.com/front.jpg' }, { src: 'https://cdn.example.com/back.jpg' }],
+        variants: [
+          { option1: '30', sku: 'BJ-30', price: '89.00', inventory_quantity: 3 },
+          { option1: '32', sku: 'BJ-32', price: '89.00', inventory_quantity: 0 }
+        ]
+      }]
+    });
+    expect(pickImportAdapter(text).id).toBe('json');
+    const [product] = jsonAdapter.parse(text);
+    expect(product.handleId).toBe('baggy-jeans');
+    expect(product.galleryUrls).toEqual(['https://cdn.example.com/front.jpg', 'https://cdn.example.com/back.jpg']);
+    expect(product.variants?.map(v => [v.size, v.sku, v.inventory])).toEqual([['30', 'BJ-30', '3'], ['32', 'BJ-32', '0']]);
+  });
+
+  it('unwraps Storefront GraphQL edges and money objects', () => {
+    const text = JSON.stringify({
+      data: {
+        products: {
+          edges: [{
+            node: {
+              handle: 'bucket-hat',
+              title: 'Bucket Hat',
+              featuredImage: { url: 'https://cdn.example.com/hat.jpg' },
+              priceRange: { minVariantPrice: { amount: '35.0', currencyCode: 'EUR' } },
+              variants: { nodes: [{ selectedOptions: [{ name: 'Size', value: 'M' }], sku: 'BH-M', price: { amount: '35.0' } }] }
+            }
+          }]
+        }
+      }
+    });
+    const [product] = jsonAdapter.parse(text);
+    expect(product.price).toBe('35.0');
+    expect(product.imageUrl).toBe('https://cdn.example.com/hat.jpg');
+    expect(product.variants?.[0]).toMatchObject({ size: 'M', sku: 'BH-M', price: '35.0' });
+  });
+
+  it('skips values that are not product objects', () => {
+    expect(jsonAdapter.parse(JSON.stringify({ products: [null, 'x', 3] }))).toEqual([]);
+  });
+});
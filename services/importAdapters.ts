@@ -0,0 +1,175 @@
+import { Product, ProductVariant } from "../types";
+import { parseProductCSV } from "./csvParser";
+import { RawProductRecord, normalizeProductRecord } from "./productNormalizer";
+
+export type ImportAdapterId = 'delimited' | 'json' | 'google-feed';
+
+/**
+ * Turns one kind of product file into Products. Adapters are tried in order and
+ * the first whose `detect` accepts the contents is used.
+ */
+export interface ImportAdapter {
+  id: ImportAdapterId;
+  label: string;
+  detect: (text: string) => boolean;
+  parse: (text: string) => Product[];
+}
+
+// --- JSON (storefront API dumps, plain arrays) ---
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === 'object') return isRecord(value) ? asText(value.amount ?? value.value ?? value.url ?? value.src ?? "") : "";
+  return String(value).trim();
+};
+
+// Storefront GraphQL wraps lists as { edges: [{ node }] } or { nodes: [] }
+const asList = (value: unknown): unknown[] => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  if (isRecord(value) && Array.isArray(value.edges)) return value.edges.map(e => isRecord(e) ? e.node : undefined);
+  if (isRecord(value) && Array.isArray(value.nodes)) return value.nodes;
+  return [value];
+};
+
+const findProductList = (data: unknown): unknown[] => {
+  if (Array.isArray(data)) return data;
+  if (!isRecord(data)) return [];
+  for (const key of ['products', 'items', 'data', 'results']) {
+    if (data[key]) return findProductList(data[key]);
+  }
+  if (data.edges || data.nodes) return asList(data);
+  return [data];
+};
+
+const readJsonVariant = (value: unknown, optionNames: string[]): ProductVariant => {
+  const variant = isRecord(value) ? value : {};
+  const options: Record<string, string> = {};
+  asList(variant.selectedOptions).forEach(o => {
+    if (isRecord(o) && o.name && o.value) options[asText(o.name)] = asText(o.value);
+  });
+  [variant.option1, variant.option2, variant.option3].forEach((option, i) => {
+    const text = asText(option);
+    if (text && text !== 'Default Title') options[optionNames[i] || `Option ${i + 1}`] = text;
+  });
+  const sizeKey = Object.keys(options).find(k => /size|waist/i.test(k));
+  return {
+    options,
+    size: sizeKey ? options[sizeKey] : asText(variant.size) || undefined,
+    sku: asText(variant.sku) || undefined,
+    price: asText(variant.price),
+    inventory: asText(variant.inventory_quantity ?? variant.quantityAvailable ?? variant.inventory) || undefined
+  };
+};
+
+const readJsonProduct = (value: unknown): RawProductRecord => {
+  const item = isRecord(value) ? value : {};
+  const optionNames = asList(item.options).map(o => asText(isRecord(o) ? o.name ?? o : o));
+  const images = [
+    ...asList(item.images).map(asText),
+    asText(item.featuredImage), asText(item.image), asText(item.imageUrl), asText(item.image_url)
+  ].filter(Boolean);
+  const priceRange = isRecord(item.priceRange) ? item.priceRange : {};
+  return {
+    handleId: asText(item.handle ?? item.handleId ?? item.id ?? item.sku),
+    name: asText(item.title ?? item.name),
+    description: asText(item.body_html ?? item.descriptionHtml ?? item.description),
+    images,
+    price: asText(item.price ?? priceRange.minVariantPrice),
+    sku: asText(item.sku),
+    collection: asText(item.product_type ?? item.productType ?? item.collection ?? item.category),
+    size: asText(item.size),
+    date: asText(item.created_at ?? item.createdAt ?? item.date) || undefined,
+    variants: asList(item.variants).map(v => readJsonVariant(v, optionNames))
+  };
+};
+
+const jsonAdapter: ImportAdapter = {
+  id: 'json',
+  label: 'JSON',
+  detect: text => /^[\[{]/.test(text.trim()),
+  parse: text => findProductList(JSON.parse(text) as unknown)
+    .map((item, index) => normalizeProductRecord(readJsonProduct(item), index))
+    .filter(p => p.name && p.imageUrl)
+};
+
+// --- Google Merchant XML (RSS 2.0 <item> or Atom <entry> with g: fields) ---
+
+// Matches on local name so both <g:price> and un-prefixed <price> are read
+const childTexts = (el: Element, name: string): string[] =>
+  Array.from(el.children).filter(c => c.localName === name).map(c => (c.textContent || '').trim()).filter(Boolean);
+
+const childText = (el: Element, ...names: string[]): string => {
+  for (const name of names) {
+    const value = childTexts(el, name)[0];
+    if (value) return value;
+  }
+  return "";
+};
+
+// "49.90 USD" -> "49.90"
+const stripCurrency = (price: string): string => price.replace(/\s*[A-Z]{3}$/, '').trim();
+
+const googleFeedAdapter: ImportAdapter = {
+  id: 'google-feed',
+  label: 'Google Shopping feed',
+  detect: text => /^(<\?xml[^>]*>\s*)?<(rss|feed)\b/i.test(text.trim()),
+  parse: text => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length) throw new Error('The XML feed could not be parsed.');
+    const entries = Array.from(doc.getElementsByTagName('*')).filter(el => el.localName === 'item' || el.localName === 'entry');
+
+    // Variants of one product share g:item_group_id
+    const groups = new Map<string, Element[]>();
+    entries.forEach(el => {
+      const key = childText(el, 'item_group_id') || childText(el, 'id') || `entry-${groups.size}`;
+      groups.set(key, [...(groups.get(key) || []), el]);
+    });
+
+    return Array.from(groups.entries()).map(([groupId, items], index) => {
+      const first = items[0];
+      const variants: ProductVariant[] = items.map(el => {
+        const size = childText(el, 'size');
+        const color = childText(el, 'color');
+        return {
+          options: { ...(size ? { Size: size } : {}), ...(color ? { Color: color } : {}) },
+          size: size || undefined,
+          sku: childText(el, 'mpn', 'id') || undefined,
+          price: stripCurrency(childText(el, 'price', 'sale_price')),
+          // availability ("in stock") is a status, not a count
+          inventory: childText(el, 'quantity') || undefined
+        };
+      });
+      return normalizeProductRecord({
+        handleId: groupId,
+        name: childText(first, 'title'),
+        description: childText(first, 'description', 'summary'),
+        images: items.flatMap(el => [...childTexts(el, 'image_link'), ...childTexts(el, 'additional_image_link')]),
+        price: variants[0].price,
+        sku: items.length === 1 ? variants[0].sku : undefined,
+        collection: childText(first, 'product_type', 'google_product_category'),
+        size: items.length === 1 ? variants[0].size : undefined,
+        variants: items.length > 1 ? variants : undefined
+      }, index);
+    }).filter(p => p.name && p.imageUrl);
+  }
+};
+
+// --- Delimited text (CSV, semicolon and tab exports) ---
+
+const delimitedAdapter: ImportAdapter = {
+  id: 'delimited',
+  label: 'CSV / TSV',
+  detect: () => true,
+  parse: text => parseProductCSV(text)
+};
+
+export const IMPORT_ADAPTERS: ImportAdapter[] = [googleFeedAdapter, jsonAdapter, delimitedAdapter];
+
+export const pickImportAdapter = (text: string): ImportAdapter =>
+  IMPORT_ADAPTERS.find(a => a.detect(text.replace(/^\uFEFF/, ''))) || delimitedAdapter;
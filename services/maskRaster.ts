@@ -0,0 +1,100 @@
+import { MaskRegion } from "../types";
+
+export type MaskTool = 'brush' | 'eraser';
+
+// Points and sizes are in the image's natural pixel space, so layers are
+// independent of how large the image happens to be displayed.
+export interface MaskStroke {
+  kind: 'stroke';
+  tool: MaskTool;
+  size: number;
+  points: { x: number; y: number }[];
+}
+
+export interface MaskRegionLayer {
+  kind: 'region';
+  tool: MaskTool;
+  regions: MaskRegion[];
+  invert: boolean;
+}
+
+export type MaskLayer = MaskStroke | MaskRegionLayer;
+
+export const DEFAULT_MASK_FEATHER = 12;
+
+// Detected boxes tend to hug the object; grow them slightly so edits can blend
+const REGION_PADDING = 0.02;
+
+const traceRegions = (ctx: CanvasRenderingContext2D, layer: MaskRegionLayer) => {
+  const { width, height } = ctx.canvas;
+  ctx.beginPath();
+  if (layer.invert) ctx.rect(0, 0, width, height);
+  layer.regions.forEach(({ box: [ymin, xmin, ymax, xmax] }) => {
+    const padX = (xmax - xmin) * REGION_PADDING;
+    const padY = (ymax - ymin) * REGION_PADDING;
+    const left = Math.max(0, (xmin - padX) / 1000) * width;
+    const top = Math.max(0, (ymin - padY) / 1000) * height;
+    const right = Math.min(1, (xmax + padX) / 1000) * width;
+    const bottom = Math.min(1, (ymax + padY) / 1000) * height;
+    ctx.rect(left, top, right - left, bottom - top);
+  });
+  ctx.fill(layer.invert ? 'evenodd' : 'nonzero');
+};
+
+const traceStroke = (ctx: CanvasRenderingContext2D, stroke: MaskStroke) => {
+  ctx.lineWidth = stroke.size;
+  const [first, ...rest] = stroke.points;
+  ctx.beginPath();
+  if (!rest.length) {
+    ctx.arc(first.x, first.y, stroke.size / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  ctx.moveTo(first.x, first.y);
+  rest.forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+};
+
+export const paintMaskLayers = (ctx: CanvasRenderingContext2D, layers: MaskLayer[], color: string) => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  layers.forEach(layer => {
+    ctx.globalCompositeOperation = layer.tool === 'eraser' ? 'destination-out' : 'source-over';
+    if (layer.kind === 'region') traceRegions(ctx, layer);
+    else traceStroke(ctx, layer);
+  });
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Renders the layers as a black/white PNG (bare base64) at the image's natural
+ * resolution, blurring the white area by `feather` pixels for a soft edit boundary.
+ */
+export const exportMask = (layers: MaskLayer[], width: number, height: number, feather: number): string | null => {
+  const layerCanvas = document.createElement('canvas');
+  layerCanvas.width = width;
+  layerCanvas.height = height;
+  const layerCtx = layerCanvas.getContext('2d');
+  const mask = document.createElement('canvas');
+  mask.width = width;
+  mask.height = height;
+  const maskCtx = mask.getContext('2d');
+  if (!layerCtx || !maskCtx) return null;
+
+  paintMaskLayers(layerCtx, layers, 'white');
+  maskCtx.fillStyle = 'black';
+  maskCtx.fillRect(0, 0, width, height);
+  if (feather > 0) maskCtx.filter = `blur(${feather}px)`;
+  maskCtx.drawImage(layerCanvas, 0, 0);
+  return mask.toDataURL('image/png').split(',')[1] || null;
+};
+
+export const loadImageSize = (url: string): Promise<{ width: number; height: number }> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => reject(new Error('Could not load the image to size its mask.'));
+  img.src = url;
+});
@@ -0,0 +1,108 @@
+import { AspectRatio, FitProfile, MaskRegion } from "../types";
+import { EngineProvider } from "./engineProvider";
+import { EngineError } from "./engineErrors";
+
+const MOCK_LATENCY_MS = 400;
+
+const ASPECT_DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  "1:1": [768, 768],
+  "3:4": [768, 1024],
+  "4:3": [1024, 768],
+  "9:16": [720, 1280],
+  "16:9": [1280, 720]
+};
+
+const MOCK_FIT_PROFILE: FitProfile = {
+  description: "Mock blueprint: a relaxed high-rise trouser with a gathered elastic waist and tapered, stacked hems.",
+  specs: {
+    silhouette: "Relaxed Taper with Ankle Stacking",
+    waistline: "Gathered Elastic with Internal Drawstring",
+    texture: "Mid-weight Brushed Cotton Twill",
+    drape: "Soft volume through the thigh, gentle pooling at the hem"
+  }
+};
+
+// Rough positions for a standing full-length figure, matched against the detection prompt
+const MOCK_REGIONS: { keyword: string; regions: MaskRegion[] }[] = [
+  { keyword: 'waistband', regions: [{ label: 'waistband', box: [400, 330, 470, 670] }] },
+  { keyword: 'hem', regions: [{ label: 'left hem label', box: [820, 330, 880, 480] }, { label: 'right hem label', box: [820, 520, 880, 670] }] },
+  { keyword: 'shoe', regions: [{ label: 'shoes', box: [880, 300, 960, 700] }] },
+  { keyword: 'trouser', regions: [{ label: 'trousers', box: [400, 300, 890, 700] }] },
+  { keyword: 'person', regions: [{ label: 'person', box: [40, 260, 970, 740] }] }
+];
+
+// FNV-1a, so identical prompts always produce identical output
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const delay = (signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const onAbort = () => { clearTimeout(timer); reject(new EngineError('cancelled')); };
+  // Long-lived signals (a whole batch run) would otherwise collect one listener per call
+  const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, MOCK_LATENCY_MS);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Offline stand-in for the real engine: deterministic placeholder images and canned
+ * text, so Studio, batch and export flows can be exercised without API credits.
+ */
+export const mockProvider: EngineProvider = {
+  analyzeFit: async (_prompt, images, _model, signal) => {
+    await delay(signal);
+    return { ...MOCK_FIT_PROFILE, description: `${MOCK_FIT_PROFILE.description} (${images.length} references analyzed)` };
+  },
+
+  writeText: async (prompt, _images, _model, signal) => {
+    await delay(signal);
+    const hash = hashString(prompt).toString(16);
+    if (prompt.includes('casting note')) {
+      return `Mock identity ${hash}: mid-twenties, oval face, warm medium skin tone, shoulder-length dark curly hair, athletic build.`;
+    }
+    if (prompt.includes('product description')) {
+      return `Mock copy ${hash}: an architectural trouser cut for movement, with a gathered waist and softly stacked hems.`;
+    }
+    return `Mock visual prompt ${hash}: full-length fashion photograph of the reference trousers on a model, studio lighting, accurate pattern reproduction.`;
+  },
+
+  renderImage: async (prompt, images, aspectRatio, _model, signal) => {
+    await delay(signal);
+    const hash = hashString(`${prompt}|${aspectRatio}|${images.length}`);
+    const [width, height] = ASPECT_DIMENSIONS[aspectRatio];
+    const hue = hash % 360;
+    const label = escapeXml(prompt.replace(/\s+/g, ' ').trim().slice(0, 60));
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},45%,28%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},45%,12%)"/></linearGradient></defs>`
+      + `<rect width="100%" height="100%" fill="url(#g)"/>`
+      + `<text x="50%" y="46%" fill="#fff" fill-opacity="0.8" font-family="sans-serif" font-size="${Math.round(width / 16)}" text-anchor="middle">MOCK RENDER</text>`
+      + `<text x="50%" y="52%" fill="#fff" fill-opacity="0.5" font-family="monospace" font-size="${Math.round(width / 48)}" text-anchor="middle">${aspectRatio} // ${hash.toString(16)}</text>`
+      + `<text x="50%" y="58%" fill="#fff" fill-opacity="0.35" font-family="sans-serif" font-size="${Math.round(width / 60)}" text-anchor="middle">${label}</text>`
+      + `</svg>`;
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+  },
+
+  detectRegions: async (prompt, _images, _model, signal) => {
+    await delay(signal);
+    const lower = prompt.toLowerCase();
+    return MOCK_REGIONS.find(r => lower.includes(r.keyword))?.regions || [];
+  },
+
+  // Fails one rule for roughly a third of images so the QA and auto-fix flows can be exercised
+  checkRules: async (prompt, images, _model, signal) => {
+    await delay(signal);
+    const ids = Array.from(prompt.matchAll(/\[([a-z0-9_]+)\]/g), m => m[1]);
+    const hash = hashString(images.map(img => img.data.slice(-256)).join('|'));
+    const failing = hash % 3 === 0 && ids.length ? ids[hash % ids.length] : null;
+    return ids.map(id => id === failing
+      ? { id, passed: false, note: 'Mock QA: rule not met in this render.' }
+      : { id, passed: true });
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { applyProductMerge, mergeItemKey, planProductMerge } from './productMerge';
+
+const product = (handleId: string, fields: Partial<Product> = {}): Product => ({
+  handleId,
+  name: handleId,
+  description: '',
+  imageUrl: `https://cdn.example.com/${handleId}.jpg`,
+  thumbnailUrl: `https://cdn.example.com/${handleId}.jpg`,
+  price: '10',
+  dateUploaded: 0,
+  ...fields
+});
+
+describe('planProductMerge', () => {
+  it('matches by handle, then by SKU', () => {
+    const items = planProductMerge(
+      [product('a'), product('b', { sku: 'SKU-B' })],
+      [product('a'), product('b-renamed', { sku: 'SKU-B', price: '12' })]
+    );
+    expect(items.map(i => [i.kind, i.local?.handleId, i.imported?.handleId])).toEqual([
+      ['unchanged', 'a', 'a'],
+      ['changed', 'b', 'b-renamed']
+    ]);
+  });
+
+  it('prefers an exact handle later in the file over an earlier SKU match', () => {
+    const items = planProductMerge(
+      [product('a', { sku: 'SKU-A' })],
+      [product('x', { sku: 'SKU-A' }), product('a', { sku: 'SKU-A2' })]
+    );
+    expect(items.map(i => [i.kind, i.local?.handleId, i.imported?.handleId])).toEqual([
+      ['new', undefined, 'x'],
+      ['changed', 'a', 'a']
+    ]);
+    const keys = items.map(mergeItemKey);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(applyProductMerge(items, {}, false).map(p => p.handleId)).toEqual(['x', 'a']);
+  });
+
+  it('never matches rows by their synthetic position handle', () => {
+    const tee = { sku: 'SKU-A', name: 'Tee', imageUrl: 'https://cdn.example.com/tee.jpg', thumbnailUrl: 'https://cdn.example.com/tee.jpg' };
+    const current = [product('item-0', tee), product('item-1', { name: 'Cap' })];
+    // The same handleless rows, reordered and with a new row first
+    const items = planProductMerge(current, [
+      product('item-0', { name: 'Scarf' }),
+      product('item-1', { name: 'Cap' }),
+      product('item-2', tee)
+    ]);
+    expect(items.map(i => [i.kind, i.local?.handleId, i.imported?.name])).toEqual([
+      ['new', undefined, 'Scarf'],
+      ['new', undefined, 'Cap'],
+      ['unchanged', 'item-0', 'Tee'],
+      ['removed', 'item-1', undefined]
+    ]);
+    const handles = applyProductMerge(items, {}, false).map(p => p.handleId);
+    expect(new Set(handles).size).toBe(handles.length);
+  });
+
+  it('lists local products missing from the file as removed', () => {
+    const items = planProductMerge([product('a'), product('b')], [product('a')]);
+    expect(items.map(i => i.kind)).toEqual(['unchanged', 'removed']);
+    expect(applyProductMerge(items, {}, true).map(p => p.handleId)).toEqual(['a']);
+  });
+
+  it('keeps local edits made since the last import by default', () => {
+    const local = product('a', { name: 'Edited', importedValues: { name: 'a', price: '10', description: '' } });
+    const items = planProductMerge([local], [product('a', { price: '15' })]);
+    const [merged] = applyProductMerge(items, {}, false);
+    expect(merged.name).toBe('Edited');
+    expect(merged.price).toBe('15');
+  });
+});
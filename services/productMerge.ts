@@ -0,0 +1,142 @@
+import { EditableProductFields, Product } from "../types";
+
+export type MergeField = keyof EditableProductFields | 'imageUrl';
+export type MergeSide = 'local' | 'imported';
+
+export const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'price', label: 'Price' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'size', label: 'Size' },
+  { key: 'collection', label: 'Collection' },
+  { key: 'description', label: 'Description' },
+  { key: 'imageUrl', label: 'Images' }
+];
+
+export interface FieldChange {
+  field: MergeField;
+  local: string;
+  imported: string;
+  // Local wins by default when the local value was edited after the last import
+  defaultSide: MergeSide;
+}
+
+export interface MergeItem {
+  kind: 'new' | 'changed' | 'unchanged' | 'removed';
+  local?: Product;
+  imported?: Product;
+  changes: FieldChange[];
+}
+
+export type MergeChoices = Record<string, Partial<Record<MergeField, MergeSide>>>;
+
+const fieldValue = (product: Product, field: MergeField): string =>
+  field === 'imageUrl' ? (product.galleryUrls || [product.imageUrl]).join('\n') : product[field] || '';
+
+/**
+ * Key a merge item by the local product when there is one, so choices survive
+ * re-planning.
+ */
+export const mergeItemKey = (item: MergeItem): string => (item.local || item.imported)!.handleId;
+
+// Importers name rows without a handle or SKU after their position in the file
+const SYNTHETIC_HANDLE = /^item-\d+$/;
+
+/** True for a handle the importer made up from the row position rather than read from the file. */
+export const isSyntheticHandle = (handleId: string): boolean => SYNTHETIC_HANDLE.test(handleId);
+
+/**
+ * Matches incoming products to the current inventory by handle, then by SKU,
+ * and lists the field-level differences for each match. Handles are matched
+ * across the whole file first, so a SKU match can never claim a product that a
+ * later row carries the exact handle of. Synthetic handles only say where a row
+ * sat in the file, so they are never matched; an unmatched one that clashes with
+ * the inventory is renumbered.
+ */
+export const planProductMerge = (current: Product[], incoming: Product[]): MergeItem[] => {
+  const byHandle = new Map(current.map(p => [p.handleId, p]));
+  const bySku = new Map(current.filter(p => p.sku).map(p => [p.sku!, p]));
+  const matched = new Set<string>();
+
+  const handleMatches = incoming.map(imported => {
+    if (isSyntheticHandle(imported.handleId)) return undefined;
+    const local = byHandle.get(imported.handleId);
+    if (!local || matched.has(local.handleId)) return undefined;
+    matched.add(local.handleId);
+    return local;
+  });
+  const matches = incoming.map((imported, i) => {
+    if (handleMatches[i]) return handleMatches[i];
+    const local = imported.sku ? bySku.get(imported.sku) : undefined;
+    if (!local || matched.has(local.handleId)) return undefined;
+    matched.add(local.handleId);
+    return local;
+  });
+
+  const taken = new Set([...current, ...incoming].map(p => p.handleId));
+  let nextItem = 0;
+  const freeHandle = (): string => {
+    while (taken.has(`item-${nextItem}`)) nextItem++;
+    taken.add(`item-${nextItem}`);
+    return `item-${nextItem}`;
+  };
+
+  const items: MergeItem[] = incoming.map((imported, i) => {
+    const local = matches[i];
+    if (!local) {
+      const clashes = isSyntheticHandle(imported.handleId) && byHandle.has(imported.handleId);
+      return { kind: 'new', imported: clashes ? { ...imported, handleId: freeHandle() } : imported, changes: [] };
+    }
+
+    const changes = MERGE_FIELDS
+      .map(({ key }): FieldChange => {
+        const edited = key !== 'imageUrl' && !!local.importedValues && fieldValue(local, key) !== (local.importedValues[key] || '');
+        return { field: key, local: fieldValue(local, key), imported: fieldValue(imported, key), defaultSide: edited ? 'local' : 'imported' };
+      })
+      .filter(change => change.local !== change.imported);
+    return { kind: changes.length ? 'changed' : 'unchanged', local, imported, changes };
+  });
+
+  current.filter(p => !matched.has(p.handleId)).forEach(local => items.push({ kind: 'removed', local, changes: [] }));
+  return items;
+};
+
+/**
+ * Builds the merged inventory. Matched products keep their handle, vision links,
+ * blueprint, brand profile and relinked image; source rows, variants and the import baseline come from the file.
+ */
+export const applyProductMerge = (items: MergeItem[], choices: MergeChoices, removeMissing: boolean): Product[] =>
+  items.flatMap((item): Product[] => {
+    if (item.kind === 'new') return [item.imported!];
+    if (item.kind === 'removed') return removeMissing ? [] : [item.local!];
+
+    const local = item.local!;
+    const imported = item.imported!;
+    const merged: Product = {
+      ...imported,
+      handleId: local.handleId,
+      visionIds: local.visionIds,
+      blueprintId: local.blueprintId,
+      brandProfileId: local.brandProfileId,
+      dateUploaded: local.dateUploaded,
+      imageCheck: local.imageCheck,
+      localImageId: local.localImageId
+    };
+    const itemChoices = choices[mergeItemKey(item)] || {};
+    item.changes.forEach(change => {
+      if ((itemChoices[change.field] || change.defaultSide) !== 'local') return;
+      if (change.field === 'imageUrl') {
+        merged.imageUrl = local.imageUrl;
+        merged.thumbnailUrl = local.thumbnailUrl;
+        merged.galleryUrls = local.galleryUrls;
+      } else {
+        merged[change.field] = local[change.field] || '';
+      }
+    });
+    // A relinked file and probe results only describe the old image
+    if (merged.imageUrl !== local.imageUrl) {
+      delete merged.imageCheck;
+      delete merged.localImageId;
+    }
+    return [merged];
+  });
@@ -0,0 +1,169 @@
+import { Product, ProductVariant } from "../types";
+
+/**
+ * Robustly extracts a Wix Image ID from a string, supporting raw filenames, 
+ * full URLs, and internal Wix URIs.
+ */
+const getWixImageId = (url: string): string | null => {
+  if (!url) return null;
+  const clean = url.trim();
+  
+  // Case 1: Internal Wix URI wix:image://v1/hash~mv2.jpg/...
+  if (clean.startsWith('wix:image')) {
+    const parts = clean.split('/');
+    const idPart = parts.find(p => p.includes('~mv2'));
+    if (idPart) return idPart.split('#')[0];
+  }
+
+  // Case 2: Any string containing ~mv2 is a Wix media asset
+  if (clean.includes('~mv2')) {
+    const parts = clean.split('/');
+    const fileName = parts[parts.length - 1];
+    return fileName.split('?')[0].split('#')[0];
+  }
+
+  // Case 3: Standard Wix hash patterns (usually hex_something.jpg)
+  const hashMatch = clean.match(/[a-f0-9]{6,}_[a-f0-9]{6,}\.(jpg|png|webp|jpeg)/i);
+  if (hashMatch) return hashMatch[0];
+
+  return null;
+};
+
+/**
+ * Ensures URLs have proper protocols.
+ */
+const sanitizeUrl = (url: string): string => {
+  let clean = url.trim();
+  if (clean.startsWith('//')) return `https:${clean}`;
+  return clean;
+};
+
+// Splits on ; or |, and on commas only where the next item starts a new image
+// reference (Wix transform URLs contain commas of their own, e.g. w_400,h_400).
+const IMAGE_LIST_SEPARATOR = /[;|]|,\s*(?=https?:|\/\/|wix:|[a-f0-9]{6,}_)/i;
+
+/**
+ * Transforms CSV image fields into standard objects, one per listed image.
+ * Prioritizes raw URLs to ensure "pulled from CSV" reliability.
+ */
+export const transformImageUrl = (input: string): { full: string; thumb: string }[] => {
+  if (!input) return [];
+  const val = input.trim();
+
+  // 1. Handle JSON (Some Wix/Shopify exports stringify the image array)
+  if (val.startsWith('[') || val.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(val);
+      const items: any[] = Array.isArray(parsed) ? parsed : [parsed];
+      return items
+        .map(item => typeof item === 'string' ? item : (item?.url || item?.src || item?.image || item?.id || ''))
+        .filter(Boolean)
+        .map(item => transformSingleImage(String(item)));
+    } catch (e) {}
+  }
+
+  // 2. Handle multiple items
+  return val.split(IMAGE_LIST_SEPARATOR)
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(transformSingleImage);
+};
+
+const transformSingleImage = (val: string): { full: string; thumb: string } => {
+  // 3. Handle Full URLs
+  if (val.startsWith('http') || val.startsWith('//')) {
+    const sanitized = sanitizeUrl(val);
+    const wixId = getWixImageId(sanitized);
+    // If it's a Wix URL, we can still generate a dynamic thumbnail
+    if (wixId) {
+      return {
+        full: sanitized,
+        thumb: `https://static.wixstatic.com/media/${wixId}/v1/fill/w_400,h_400,al_c,q_80/thumbnail.jpg`
+      };
+    }
+    return { full: sanitized, thumb: sanitized };
+  }
+
+  // 4. Handle Raw Wix Filenames (e.g. 8bb231_...~mv2.jpg)
+  const wixId = getWixImageId(val);
+  if (wixId) {
+    return {
+      full: `https://static.wixstatic.com/media/${wixId}`,
+      thumb: `https://static.wixstatic.com/media/${wixId}/v1/fill/w_400,h_400,al_c,q_80/thumbnail.jpg`
+    };
+  }
+
+  // 5. Fallback: return as is
+  return { full: val, thumb: val };
+};
+
+/**
+ * Enhanced heuristic to extract sizes (Letter or Numeric Waist) from product titles.
+ */
+export const extractSizeFromTitle = (title: string): string => {
+  if (!title) return "";
+  
+  // Check for waist sizes (e.g., 32, 32W, 34x32)
+  const waistMatch = title.match(/\b(2[4-9]|3[0-9]|4[0-8])([wW])?\b/);
+  if (waistMatch) return waistMatch[0].toUpperCase();
+
+  // Check for dimension patterns (e.g., 32/34)
+  const slashMatch = title.match(/\b(2[4-9]|3[0-9]|4[0-8])\/(2[4-9]|3[0-9]|4[0-8])\b/);
+  if (slashMatch) return slashMatch[0];
+
+  // Check for letter sizes (XS - XXXL)
+  const letterMatch = title.match(/\b(XS|S|M|L|XL|XXL|XXXL|2XL|3XL)\b/i);
+  if (letterMatch) return letterMatch[0].toUpperCase();
+
+  return "";
+};
+
+/**
+ * A product as read by a structured import adapter (JSON, XML feed), before
+ * normalization. Image entries may be URLs, Wix ids or delimited lists.
+ */
+export interface RawProductRecord {
+  handleId?: string;
+  name: string;
+  description?: string;
+  images: string[];
+  price?: string;
+  sku?: string;
+  collection?: string;
+  size?: string;
+  date?: string;
+  variants?: ProductVariant[];
+}
+
+/**
+ * Builds a Product with the same image and size normalization the CSV importer applies.
+ */
+export const normalizeProductRecord = (record: RawProductRecord, index: number): Product => {
+  const images = record.images.flatMap(transformImageUrl)
+    .filter((img, i, all) => all.findIndex(other => other.full === img.full) === i);
+  const variants = record.variants?.length ? record.variants : undefined;
+  const variantSizes = Array.from(new Set((variants || []).map(v => v.size).filter((v): v is string => !!v)));
+  const name = record.name.trim();
+  const description = record.description?.trim() || "";
+  const price = record.price || variants?.[0]?.price || "";
+  const sku = record.sku || variants?.[0]?.sku || "";
+  const collection = record.collection || "";
+  const size = variantSizes.length ? variantSizes.join(' / ') : record.size || extractSizeFromTitle(name);
+
+  return {
+    handleId: record.handleId || sku || `item-${index}`,
+    name,
+    description,
+    imageUrl: images[0]?.full || "",
+    thumbnailUrl: images[0]?.thumb || "",
+    galleryUrls: images.map(img => img.full),
+    price,
+    sku,
+    collection,
+    size,
+    dateUploaded: record.date ? new Date(record.date).getTime() : Date.now() - (index * 1000),
+    sourcePlatform: 'generic',
+    importedValues: { name, price, sku, size, collection, description },
+    variants
+  };
+};
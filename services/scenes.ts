@@ -0,0 +1,47 @@
+import { BodyShape, SceneOption } from "../types";
+
+export const CUSTOM_LOCATION = "Custom";
+
+export const BUILT_IN_LOCATIONS: SceneOption[] = [
+  {
+    name: "Shop Display",
+    prompt: "in a pristine, minimalist fashion studio. Clean, off-white studio wall with subtle texture, and a light natural wooden floor. High-end e-commerce catalog style. Professional lighting: bright, soft, and completely even with minimal soft shadows. Clean boutique aesthetic",
+    framing: "Frame the shot from the waist down to the feet. Head and upper torso are cropped out. The focus is entirely on the trousers and shoes (simple slippers or barefoot). Minimalist e-commerce catalog shot.",
+    isBuiltIn: true
+  },
+  { name: "Everyday", prompt: "in a natural, relatable lifestyle setting like a bright minimalist apartment or a sun-drenched cafe. Warm, soft ambient light. Casual and authentic atmosphere", isBuiltIn: true },
+  { name: "Outdoor", prompt: "in an epic outdoor vista, perhaps a desert dune or mountain pass, in golden hour natural sunlight. Cinematic atmosphere", isBuiltIn: true },
+  { name: "Urban", prompt: "in a sleek metropolitan downtown area, glass skyscrapers in the background, sharp urban shadows, cool modern vibe", isBuiltIn: true },
+  { name: CUSTOM_LOCATION, prompt: "in a professional studio setting", isBuiltIn: true }
+];
+
+export const BUILT_IN_POSES: SceneOption[] = [
+  { name: "Relaxed Standing", prompt: "The model is standing naturally with a relaxed posture, hands casually at sides or one hand partially in a pocket. Front-on perspective", isBuiltIn: true },
+  { name: "Walking Motion", prompt: "The model is captured mid-stride, showcasing the fluid drape and stacking of the fabric around the ankles. Dynamic but poised", isBuiltIn: true },
+  { name: "Seated Casual", prompt: "The model is sitting on a minimalist concrete block or simple chair, highlighting the volume in the seat and thigh area", isBuiltIn: true },
+  { name: "Side Profile", prompt: "A sharp side-on view to emphasize the architectural taper and clean silhouette profile", isBuiltIn: true },
+  { name: "Back Architecture", prompt: "A rear-view shot focusing on the high-rise waistband and the way the fabric pools at the hem", isBuiltIn: true }
+];
+
+export const BODY_SHAPES: BodyShape[] = ["Slim", "Athletic", "Curvy", "Muscular", "Chubby", "Overweight"];
+
+export const BODY_SHAPE_PROMPTS: Record<BodyShape, string> = {
+  Slim: "slender build",
+  Athletic: "athletic build",
+  Chubby: "soft rounded archetype",
+  Overweight: "larger figure archetype",
+  Muscular: "muscular physique",
+  Curvy: "curvy hourglass figure"
+};
+
+/**
+ * Looks a pose or location up by name. Names that are no longer defined (a
+ * deleted preset recalled from an old vision) fall back to the name itself.
+ */
+export const resolveSceneOption = (options: SceneOption[], name: string): SceneOption =>
+  options.find(o => o.name === name) || { name, prompt: name };
+
+export const describeLocation = (location: SceneOption, manualLocation?: string): string => {
+  if (location.name === CUSTOM_LOCATION && manualLocation?.trim()) return `in the following setting: ${manualLocation.trim()}`;
+  return location.isBuiltIn ? location.prompt : `in the following setting: ${location.prompt}`;
+};
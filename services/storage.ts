@@ -0,0 +1,337 @@
+import { ExportEntry, GeneratedArtifact, ImageState, Lookbook, Product } from "../types";
+import { blobToBase64 } from "./imageFetcher";
+
+const DB_NAME = 'zimbabalooba_engine';
+const DB_VERSION = 5;
+const PRODUCTS_STORE = 'products';
+const VISIONS_STORE = 'visions';
+const VISION_IMAGES_STORE = 'visionImages';
+const VISION_MASKS_STORE = 'visionMasks';
+const META_STORE = 'meta';
+const PATTERNS_STORE = 'patterns';
+const LOOKBOOKS_STORE = 'lookbooks';
+const EXPORT_LIST_META_KEY = 'exportList';
+
+// Keys used before the move to IndexedDB. Read once during migration, then removed.
+const LEGACY_DB_STORAGE_KEY = 'zimbabalooba_product_db';
+const LEGACY_EXPORT_LIST_KEY = 'zimbabalooba_export_list';
+const LEGACY_VISIONS_STORAGE_KEY = 'zimbabalooba_visions_gallery';
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRODUCTS_STORE)) db.createObjectStore(PRODUCTS_STORE, { keyPath: 'handleId' });
+        if (!db.objectStoreNames.contains(VISIONS_STORE)) {
+          db.createObjectStore(VISIONS_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        const visionStore = request.transaction!.objectStore(VISIONS_STORE);
+        if (!visionStore.indexNames.contains('rootId')) visionStore.createIndex('rootId', 'rootId');
+        if (!visionStore.indexNames.contains('lookbookId')) visionStore.createIndex('lookbookId', 'lookbookId');
+        if (!db.objectStoreNames.contains(VISION_IMAGES_STORE)) db.createObjectStore(VISION_IMAGES_STORE);
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        if (!db.objectStoreNames.contains(PATTERNS_STORE)) db.createObjectStore(PATTERNS_STORE);
+        if (!db.objectStoreNames.contains(LOOKBOOKS_STORE)) db.createObjectStore(LOOKBOOKS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(VISION_MASKS_STORE)) {
+          // Masks used to sit inline on the record; move them out so records stay small
+          const maskStore = db.createObjectStore(VISION_MASKS_STORE);
+          const cursorRequest = visionStore.openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { maskImage, ...record } = cursor.value as GeneratedArtifact;
+            if (maskImage) {
+              if (maskImage.startsWith('data:')) maskStore.put(dataUrlToBlob(maskImage), record.id);
+              cursor.update(record);
+            }
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Resolves when the transaction commits. Quota failures surface here as an
+ * aborted transaction, so they are rewritten into a readable message.
+ */
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  const fail = () => {
+    const err = tx.error;
+    if (err?.name === 'QuotaExceededError') {
+      reject(new Error('Storage full: free space by deleting visions or exporting them before rendering more.'));
+    } else reject(err || new Error('Storage transaction aborted.'));
+  };
+  tx.oncomplete = () => resolve();
+  tx.onerror = fail;
+  tx.onabort = fail;
+});
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/data:([^;]+)/)?.[1] || 'image/png';
+  const bytes = atob(data);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return new Blob([buffer], { type: mimeType });
+};
+
+const blobToDataUrl = async (blob: Blob): Promise<string> =>
+  `data:${blob.type || 'image/png'};base64,${await blobToBase64(blob)}`;
+
+export const loadProducts = async (): Promise<Product[]> => {
+  const db = await openDb();
+  return requestResult(db.transaction(PRODUCTS_STORE).objectStore(PRODUCTS_STORE).getAll());
+};
+
+export const saveProducts = async (products: Product[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+  const store = tx.objectStore(PRODUCTS_STORE);
+  store.clear();
+  products.forEach(p => store.put(p));
+  return transactionDone(tx);
+};
+
+export const loadExportList = async (): Promise<ExportEntry[]> => {
+  const db = await openDb();
+  const saved = await requestResult(db.transaction(META_STORE).objectStore(META_STORE).get(EXPORT_LIST_META_KEY));
+  return (saved as ExportEntry[] | undefined) || [];
+};
+
+export const saveExportList = async (entries: ExportEntry[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(entries, EXPORT_LIST_META_KEY);
+  return transactionDone(tx);
+};
+
+/**
+ * Stores the vision record with its image and mask split out as Blobs. Records
+ * are rewritten on every call, the blobs only when a data URL is supplied.
+ */
+export const saveVision = async (artifact: GeneratedArtifact): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([VISIONS_STORE, VISION_IMAGES_STORE, VISION_MASKS_STORE], 'readwrite');
+  const { maskImage, ...record } = artifact;
+  tx.objectStore(VISIONS_STORE).put({ ...record, imageUrl: '' });
+  if (artifact.imageUrl.startsWith('data:')) {
+    tx.objectStore(VISION_IMAGES_STORE).put(dataUrlToBlob(artifact.imageUrl), artifact.id);
+  }
+  if (maskImage?.startsWith('data:')) {
+    tx.objectStore(VISION_MASKS_STORE).put(dataUrlToBlob(maskImage), artifact.id);
+  }
+  return transactionDone(tx);
+};
+
+/**
+ * Updates fields of a stored vision (review, product link) without rewriting its image.
+ */
+export const updateVision = async (id: string, patch: Partial<Omit<GeneratedArtifact, 'id' | 'imageUrl'>>): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(VISIONS_STORE, 'readwrite');
+  const store = tx.objectStore(VISIONS_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => { if (request.result) store.put({ ...request.result, ...patch }); };
+  return transactionDone(tx);
+};
+
+export const deleteVision = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([VISIONS_STORE, VISION_IMAGES_STORE, VISION_MASKS_STORE], 'readwrite');
+  tx.objectStore(VISIONS_STORE).delete(id);
+  tx.objectStore(VISION_IMAGES_STORE).delete(id);
+  tx.objectStore(VISION_MASKS_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+const rehydrateVision = async (record: GeneratedArtifact, image?: Blob, mask?: Blob): Promise<GeneratedArtifact> => ({
+  ...record,
+  imageUrl: image ? await blobToDataUrl(image) : record.imageUrl,
+  ...(mask ? { maskImage: await blobToDataUrl(mask) } : {})
+});
+
+/**
+ * Loads one vision with its image and mask rehydrated as data URLs.
+ */
+export const loadVision = async (id: string): Promise<GeneratedArtifact | null> => {
+  const db = await openDb();
+  const tx = db.transaction([VISIONS_STORE, VISION_IMAGES_STORE, VISION_MASKS_STORE]);
+  const [record, image, mask] = await Promise.all([
+    requestResult<GeneratedArtifact | undefined>(tx.objectStore(VISIONS_STORE).get(id)),
+    requestResult<Blob | undefined>(tx.objectStore(VISION_IMAGES_STORE).get(id)),
+    requestResult<Blob | undefined>(tx.objectStore(VISION_MASKS_STORE).get(id))
+  ]);
+  if (!record) return null;
+  return rehydrateVision(record, image, mask);
+};
+
+/**
+ * Reads the stored image blobs for a set of visions. Ids without an image are left out.
+ */
+export const loadVisionImages = async (ids: string[]): Promise<Map<string, Blob>> => {
+  const db = await openDb();
+  const store = db.transaction(VISION_IMAGES_STORE).objectStore(VISION_IMAGES_STORE);
+  const blobs = await Promise.all(ids.map(id => requestResult<Blob | undefined>(store.get(id))));
+  const images = new Map<string, Blob>();
+  blobs.forEach((blob, i) => { if (blob) images.set(ids[i], blob); });
+  return images;
+};
+
+type StoredVision = [GeneratedArtifact, Blob | undefined, Blob | undefined];
+
+/**
+ * Loads every vision recorded under one index value, with images and masks rehydrated.
+ */
+const loadVisionsByIndex = async (index: 'rootId' | 'lookbookId', key: string): Promise<GeneratedArtifact[]> => {
+  const db = await openDb();
+  const tx = db.transaction([VISIONS_STORE, VISION_IMAGES_STORE, VISION_MASKS_STORE]);
+  const imageStore = tx.objectStore(VISION_IMAGES_STORE);
+  const maskStore = tx.objectStore(VISION_MASKS_STORE);
+  const entries: Promise<StoredVision>[] = await new Promise((resolve, reject) => {
+    const matches: Promise<StoredVision>[] = [];
+    const request = tx.objectStore(VISIONS_STORE).index(index).openCursor(IDBKeyRange.only(key));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(matches);
+      const record = cursor.value as GeneratedArtifact;
+      matches.push(Promise.all([
+        requestResult<Blob | undefined>(imageStore.get(record.id)),
+        requestResult<Blob | undefined>(maskStore.get(record.id))
+      ]).then(([image, mask]) => [record, image, mask]));
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  const loaded = await Promise.all(entries);
+  const visions = await Promise.all(loaded.map(([record, image, mask]) => rehydrateVision(record, image, mask)));
+  return visions.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Loads every version descended from the same original render, oldest first.
+ */
+export const loadVisionFamily = (rootId: string): Promise<GeneratedArtifact[]> => loadVisionsByIndex('rootId', rootId);
+
+/**
+ * Reads every vision record without its image or mask, newest first. Light
+ * enough to search and filter the whole archive in memory.
+ */
+export const loadVisionRecords = async (): Promise<GeneratedArtifact[]> => {
+  const db = await openDb();
+  const records = await requestResult<GeneratedArtifact[]>(db.transaction(VISIONS_STORE).objectStore(VISIONS_STORE).getAll());
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveLookbook = async (lookbook: Lookbook): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(LOOKBOOKS_STORE, 'readwrite');
+  tx.objectStore(LOOKBOOKS_STORE).put(lookbook);
+  return transactionDone(tx);
+};
+
+export const deleteLookbook = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(LOOKBOOKS_STORE, 'readwrite');
+  tx.objectStore(LOOKBOOKS_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+export const loadLookbooks = async (): Promise<Lookbook[]> => {
+  const db = await openDb();
+  const lookbooks = await requestResult<Lookbook[]>(db.transaction(LOOKBOOKS_STORE).objectStore(LOOKBOOKS_STORE).getAll());
+  return lookbooks.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Loads a lookbook's shots in the order they were rendered.
+ */
+export const loadLookbookShots = (lookbookId: string): Promise<GeneratedArtifact[]> => loadVisionsByIndex('lookbookId', lookbookId);
+
+/**
+ * Stores a pattern reference once, keyed by a hash of its contents, so every
+ * vision rendered from the same pattern can point back to it.
+ */
+export const savePatternImage = async (image: ImageState): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(image.base64));
+  const id = Array.from(new Uint8Array(digest)).slice(0, 16).map(b => b.toString(16).padStart(2, '0')).join('');
+  const db = await openDb();
+  const tx = db.transaction(PATTERNS_STORE, 'readwrite');
+  tx.objectStore(PATTERNS_STORE).put(dataUrlToBlob(`data:${image.mimeType};base64,${image.base64}`), id);
+  await transactionDone(tx);
+  return id;
+};
+
+export const loadPatternImage = async (id: string): Promise<ImageState | null> => {
+  const db = await openDb();
+  const blob = await requestResult<Blob | undefined>(db.transaction(PATTERNS_STORE).objectStore(PATTERNS_STORE).get(id));
+  if (!blob) return null;
+  const base64 = await blobToBase64(blob);
+  return { base64, mimeType: blob.type || 'image/png', previewUrl: URL.createObjectURL(blob) };
+};
+
+export const deletePatternImages = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PATTERNS_STORE, 'readwrite');
+  const store = tx.objectStore(PATTERNS_STORE);
+  ids.forEach(id => store.delete(id));
+  return transactionDone(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * Copies data saved by earlier versions out of localStorage and removes the old keys.
+ * Also asks the browser to keep our storage persistent so it is not evicted under pressure.
+ */
+export const migrateLegacyStorage = async (): Promise<void> => {
+  if (navigator.storage?.persist) navigator.storage.persist().catch(() => {});
+
+  const read = <T>(key: string): T | null => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    try { return JSON.parse(raw) as T; } catch (e) { return null; }
+  };
+
+  const products = read<Product[]>(LEGACY_DB_STORAGE_KEY);
+  if (products) {
+    const existing = await loadProducts();
+    if (!existing.length) await saveProducts(products);
+    localStorage.removeItem(LEGACY_DB_STORAGE_KEY);
+  }
+
+  const exportList = read<Product[]>(LEGACY_EXPORT_LIST_KEY);
+  if (exportList) {
+    const existing = await loadExportList();
+    if (!existing.length) await saveExportList(exportList.map(p => ({ generatedImageUrls: [], ...p })));
+    localStorage.removeItem(LEGACY_EXPORT_LIST_KEY);
+  }
+
+  const visions = read<GeneratedArtifact[]>(LEGACY_VISIONS_STORAGE_KEY);
+  if (visions) {
+    for (const v of visions) await saveVision(v);
+    localStorage.removeItem(LEGACY_VISIONS_STORAGE_KEY);
+  }
+};
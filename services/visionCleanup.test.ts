@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedArtifact, GenerationParams, Lookbook } from '../types';
+import { planVisionDeletion } from './visionCleanup';
+
+const vision = (id: string, fields: Partial<GeneratedArtifact> = {}, params: Partial<GenerationParams> = {}): GeneratedArtifact => ({
+  id,
+  timestamp: 0,
+  generatedPrompt: '',
+  imageUrl: '',
+  params: params as GenerationParams,
+  ...fields
+});
+
+const lookbook = (id: string, shotIds: string[]): Lookbook => ({
+  id,
+  timestamp: 0,
+  identity: '',
+  anchorVisionId: shotIds[0],
+  shotIds,
+  poses: shotIds.map(s => `pose-${s}`) as Lookbook['poses']
+});
+
+describe('planVisionDeletion', () => {
+  it('moves children up to the nearest surviving ancestor', () => {
+    const visions = [
+      vision('root'),
+      vision('mid', { parentId: 'root', rootId: 'root' }),
+      vision('mid2', { parentId: 'mid', rootId: 'root' }),
+      vision('leaf', { parentId: 'mid2', rootId: 'root' })
+    ];
+    expect(planVisionDeletion(visions, [], ['mid', 'mid2'], []).reparented).toEqual(new Map([['leaf', 'root']]));
+    expect(planVisionDeletion(visions, [], ['root', 'mid'], []).reparented).toEqual(new Map([['mid2', undefined]]));
+  });
+
+  it('drops deleted shots from lookbooks and moves the anchor', () => {
+    const plan = planVisionDeletion(
+      [vision('a'), vision('b'), vision('c')],
+      [lookbook('lb1', ['a', 'b']), lookbook('lb2', ['c']), lookbook('lb3', ['x'])],
+      ['a', 'c'],
+      []
+    );
+    expect(plan.updatedLookbooks).toEqual([{ ...lookbook('lb1', ['b']), anchorVisionId: 'b' }]);
+    expect(plan.emptyLookbookIds).toEqual(['lb2']);
+  });
+
+  it('only releases patterns nothing else references', () => {
+    const visions = [
+      vision('a', {}, { patternId: 'p1', referenceIds: ['r1', 'r2'] }),
+      vision('b', {}, { patternId: 'p1' }),
+      vision('c', {}, { patternId: 'p2', referenceIds: ['r2'] })
+    ];
+    expect(planVisionDeletion(visions, [], ['a', 'c'], ['p2']).orphanedPatternIds).toEqual(['r1', 'r2']);
+    expect(planVisionDeletion(visions, [], ['a'], []).orphanedPatternIds).toEqual(['r1']);
+  });
+});
@@ -0,0 +1,67 @@
+import { GeneratedArtifact, Lookbook } from "../types";
+
+export interface VisionDeletionPlan {
+  // Surviving visions whose parent is deleted, with their nearest surviving ancestor
+  reparented: Map<string, string | undefined>;
+  // Lookbooks that keep at least one shot, with the deleted shots taken out
+  updatedLookbooks: Lookbook[];
+  emptyLookbookIds: string[];
+  // Pattern store entries that nothing references once the visions are gone
+  orphanedPatternIds: string[];
+}
+
+const patternIdsOf = (vision: GeneratedArtifact): string[] =>
+  [vision.params?.patternId, ...(vision.params?.referenceIds || [])].filter((id): id is string => !!id);
+
+/**
+ * Works out what deleting a set of visions leaves dangling. Children move up to
+ * the closest ancestor that survives, so refinement chains stay connected; a
+ * family's rootId is left alone since it only groups the versions together.
+ * `otherPatternIds` are the pattern store ids still used outside the archive
+ * (presets, cast headshots, relinked product images).
+ */
+export const planVisionDeletion = (
+  visions: GeneratedArtifact[],
+  lookbooks: Lookbook[],
+  ids: string[],
+  otherPatternIds: string[]
+): VisionDeletionPlan => {
+  const removed = new Set(ids);
+  const parentOf = new Map(visions.map(v => [v.id, v.parentId]));
+  const survivingAncestor = (id?: string): string | undefined => {
+    const seen = new Set<string>();
+    while (id && removed.has(id) && !seen.has(id)) {
+      seen.add(id);
+      id = parentOf.get(id);
+    }
+    return id && removed.has(id) ? undefined : id;
+  };
+
+  const reparented = new Map<string, string | undefined>();
+  visions.forEach(v => {
+    if (!removed.has(v.id) && v.parentId && removed.has(v.parentId)) reparented.set(v.id, survivingAncestor(v.parentId));
+  });
+
+  const updatedLookbooks: Lookbook[] = [];
+  const emptyLookbookIds: string[] = [];
+  lookbooks.forEach(lb => {
+    if (!lb.shotIds.some(id => removed.has(id))) return;
+    const kept = lb.shotIds.map((id, i) => ({ id, pose: lb.poses[i] })).filter(shot => !removed.has(shot.id));
+    if (!kept.length) {
+      emptyLookbookIds.push(lb.id);
+      return;
+    }
+    updatedLookbooks.push({
+      ...lb,
+      shotIds: kept.map(shot => shot.id),
+      poses: kept.map(shot => shot.pose),
+      anchorVisionId: removed.has(lb.anchorVisionId) ? kept[0].id : lb.anchorVisionId
+    });
+  });
+
+  const stillUsed = new Set([...otherPatternIds, ...visions.filter(v => !removed.has(v.id)).flatMap(patternIdsOf)]);
+  const orphanedPatternIds = Array.from(new Set(visions.filter(v => removed.has(v.id)).flatMap(patternIdsOf)))
+    .filter(id => !stillUsed.has(id));
+
+  return { reparented, updatedLookbooks, emptyLookbookIds, orphanedPatternIds };
+};
@@ -0,0 +1,79 @@
+import { GeneratedArtifact } from "../types";
+
+export type VisionStatus = 'approved' | 'rejected' | 'unreviewed' | 'qa_failed';
+
+export type VisionSort = 'newest' | 'oldest' | 'rating';
+
+export interface VisionQuery {
+  text: string;
+  handleId: string;
+  blueprint: string;
+  pose: string;
+  location: string;
+  status: VisionStatus | '';
+  minRating: number;
+  sort: VisionSort;
+}
+
+export const EMPTY_VISION_QUERY: VisionQuery = {
+  text: '',
+  handleId: '',
+  blueprint: '',
+  pose: '',
+  location: '',
+  status: '',
+  minRating: 0,
+  sort: 'newest'
+};
+
+const hasStatus = (vision: GeneratedArtifact, status: VisionStatus): boolean => {
+  if (status === 'qa_failed') return !!vision.qa && !vision.qa.passed;
+  if (status === 'unreviewed') return !vision.review?.verdict;
+  return vision.review?.verdict === status;
+};
+
+/**
+ * The labels a vision is filed under: its product, blueprint, pose, location
+ * and review status. Derived from the record, so they never go stale.
+ */
+export const visionTags = (vision: GeneratedArtifact): string[] => [
+  vision.handleId,
+  vision.params?.blueprintName,
+  vision.params?.modelPose,
+  vision.params?.locationStyle,
+  vision.review?.verdict || 'unreviewed',
+  hasStatus(vision, 'qa_failed') ? 'QA failed' : undefined
+].filter((tag): tag is string => !!tag);
+
+const uniqueSorted = (values: (string | undefined)[]): string[] =>
+  Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+
+// The values present in the archive for each filter dropdown
+export const visionFacets = (visions: GeneratedArtifact[]) => ({
+  handleIds: uniqueSorted(visions.map(v => v.handleId)),
+  blueprints: uniqueSorted(visions.map(v => v.params?.blueprintName)),
+  poses: uniqueSorted(visions.map(v => v.params?.modelPose)),
+  locations: uniqueSorted(visions.map(v => v.params?.locationStyle))
+});
+
+/**
+ * Applies the gallery filters. Every search word must appear in the prompt,
+ * directive or tags, in any order.
+ */
+export const queryVisions = (visions: GeneratedArtifact[], query: VisionQuery): GeneratedArtifact[] => {
+  const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = visions.filter(v => {
+    if (query.handleId && v.handleId !== query.handleId) return false;
+    if (query.blueprint && v.params?.blueprintName !== query.blueprint) return false;
+    if (query.pose && v.params?.modelPose !== query.pose) return false;
+    if (query.location && v.params?.locationStyle !== query.location) return false;
+    if (query.status && !hasStatus(v, query.status)) return false;
+    if ((v.review?.rating || 0) < query.minRating) return false;
+    if (!words.length) return true;
+    const haystack = [v.generatedPrompt, v.directive, ...visionTags(v)].join(' ').toLowerCase();
+    return words.every(w => haystack.includes(w));
+  });
+  if (query.sort === 'oldest') return matches.sort((a, b) => a.timestamp - b.timestamp);
+  if (query.sort === 'rating') return matches.sort((a, b) => (b.review?.rating || 0) - (a.review?.rating || 0) || b.timestamp - a.timestamp);
+  return matches.sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildZip } from './zipArchive';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// A minimal reader for stored archives: walks the central directory and checks each local header against it
+const readZip = (bytes: Uint8Array): { entries: ReadEntry[]; centralOffset: number; centralSize: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054B50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  let cursor = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014B50);
+    const crc = view.getUint32(cursor + 16, true);
+    const size = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034B50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + localNameLength))).toBe(name);
+    const dataStart = localOffset + 30 + localNameLength;
+    entries.push({ name, crc, data: bytes.slice(dataStart, dataStart + size) });
+    cursor += 46 + nameLength;
+  }
+  return { entries, centralOffset, centralSize };
+};
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('buildZip', () => {
+  it('round-trips names and contents through the central directory', async () => {
+    const files = [
+      { name: 'baggy-jeans-1.png', data: text('123456789') },
+      { name: 'größe/hat.jpg', data: new Uint8Array([0, 255, 1, 254, 2]) },
+      { name: 'empty.txt', data: new Uint8Array() }
+    ];
+    const bytes = new Uint8Array(await buildZip(files, new Date(2024, 4, 17, 10, 30, 44)).arrayBuffer());
+    const { entries, centralOffset } = readZip(bytes);
+
+    expect(entries.map(e => e.name)).toEqual(files.map(f => f.name));
+    entries.forEach((entry, i) => expect(Array.from(entry.data)).toEqual(Array.from(files[i].data)));
+    const localSize = files.reduce((n, f) => n + 30 + text(f.name).length + f.data.length, 0);
+    expect(centralOffset).toBe(localSize);
+  });
+
+  it('writes standard CRC-32 checksums', async () => {
+    const bytes = new Uint8Array(await buildZip([
+      { name: 'check.txt', data: text('123456789') },
+      { name: 'empty.txt', data: new Uint8Array() }
+    ]).arrayBuffer());
+    expect(readZip(bytes).entries.map(e => e.crc)).toEqual([0xCBF43926, 0]);
+  });
+
+  it('stamps entries with the MS-DOS time and date', async () => {
+    const bytes = new Uint8Array(await buildZip([{ name: 'a', data: text('a') }], new Date(2024, 4, 17, 10, 30, 44)).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint16(10, true)).toBe((10 << 11) | (30 << 5) | 22);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+});
@@ -22,9 +22,21 @@ export enum Ethnicity {
 
 export type BodyShape = "Slim" | "Athletic" | "Chubby" | "Overweight" | "Muscular" | "Curvy";
 
-export type PoseStyle = "Outdoor" | "Urban" | "Shop Display" | "Everyday" | "Custom";
+// Location and pose names. Built-ins live in services/scenes.ts; users can add their own.
+export type PoseStyle = string;
 
-export type ModelPose = "Relaxed Standing" | "Walking Motion" | "Seated Casual" | "Side Profile" | "Back Architecture";
+export type ModelPose = string;
+
+/**
+ * A named pose or location and the prompt text it contributes to the meta-prompt.
+ */
+export interface SceneOption {
+  name: string;
+  prompt: string;
+  // Extra shot framing directive, e.g. the waist-down crop of catalog shots
+  framing?: string;
+  isBuiltIn?: boolean;
+}
 
 export interface FitProfile {
   description: string;
@@ -36,14 +48,197 @@ export interface FitProfile {
   };
 }
 
+export interface SavedBlueprint extends FitProfile {
+  id: string;
+  name: string;
+  timestamp: number;
+  referenceCount: number;
+  isBuiltIn?: boolean;
+}
+
 export interface EngineResult {
   generatedPrompt: string;
   imageUrl: string;
 }
 
+export interface GenerationParams {
+  ethnicity: Ethnicity;
+  gender: Gender;
+  bodyShape: BodyShape;
+  modelPose: ModelPose;
+  locationStyle: PoseStyle;
+  // Free-text setting used when locationStyle is "Custom"
+  manualLocation?: string;
+  aspectRatio: AspectRatio;
+  blueprintId: string;
+  blueprintName: string;
+  patternScale: number;
+  brightness: number;
+  patternId?: string;
+  referenceIds?: string[];
+  brandProfileId?: string;
+  brandProfileVersion?: number;
+  castModelId?: string;
+}
+
+export interface StudioPreset {
+  id: string;
+  name: string;
+  timestamp: number;
+  params: GenerationParams;
+}
+
 export interface GeneratedArtifact extends EngineResult {
   id: string;
   timestamp: number;
+  handleId?: string;
+  parentId?: string;
+  rootId?: string;
+  directive?: string;
+  maskImage?: string;
+  params?: GenerationParams;
+  qa?: BrandQaReport;
+  lookbookId?: string;
+  review?: VisionReview;
+}
+
+export type VisionVerdict = 'approved' | 'rejected';
+
+// A reviewer's judgement of a vision. Only approved visions can be exported.
+export interface VisionReview {
+  rating?: number;
+  verdict?: VisionVerdict;
+  rejectionReasons?: string[];
+  reviewedAt: number;
+}
+
+// A model to recast across shots: a description of the person plus, when there is one, an image of them
+export interface ModelIdentity {
+  description: string;
+  anchorImageUrl?: string;
+}
+
+export type AgeRange = "18-24" | "25-34" | "35-44" | "45-54" | "55+";
+
+/**
+ * A saved model from the casting library. The anchor image lives in the pattern
+ * store and is sent with every render that casts this model.
+ */
+export interface CastModel {
+  id: string;
+  name: string;
+  timestamp: number;
+  ethnicity: Ethnicity;
+  gender: Gender;
+  bodyShape: BodyShape;
+  ageRange: AgeRange;
+  height: string;
+  hair: string;
+  notes: string;
+  anchorImageId?: string;
+  // Engine-written description of the person in the anchor image
+  identity?: string;
+}
+
+/**
+ * A set of shots of one product with the same model. The shots are stored as
+ * ordinary visions that point back here through lookbookId.
+ */
+export interface Lookbook {
+  id: string;
+  timestamp: number;
+  handleId?: string;
+  productName?: string;
+  identity: string;
+  anchorVisionId: string;
+  shotIds: string[];
+  poses: ModelPose[];
+}
+
+export interface BrandRuleCheck {
+  ruleId: string;
+  label: string;
+  passed: boolean;
+  note?: string;
+}
+
+export interface BrandQaReport {
+  passed: boolean;
+  checks: BrandRuleCheck[];
+  checkedAt: number;
+}
+
+export type CopyTone = "Poetic" | "Minimal" | "Playful" | "Technical";
+
+export interface BrandRule {
+  id: string;
+  kind: 'must' | 'must_not';
+  label: string;
+  text: string;
+}
+
+/**
+ * Brand architecture and copy voice injected into the prompt builders. Every
+ * save adds a version; all versions of one profile share its id.
+ */
+export interface BrandRuleProfile {
+  id: string;
+  version: number;
+  name: string;
+  brandName: string;
+  persona: string;
+  copyTone: CopyTone;
+  rules: BrandRule[];
+  // Products in these collections use this profile unless they pick one explicitly
+  collections: string[];
+  timestamp: number;
+  isBuiltIn?: boolean;
+}
+
+export type AutoMaskTarget = 'waistband' | 'hem_labels' | 'shoes' | 'background' | 'trousers';
+
+export interface MaskRegion {
+  label: string;
+  // [ymin, xmin, ymax, xmax], normalized to 0-1000
+  box: [number, number, number, number];
+}
+
+export type StorePlatform = 'shopify' | 'wix' | 'generic';
+
+export type ImportField = 'handleId' | 'name' | 'description' | 'imageUrl' | 'price' | 'sku' | 'collection' | 'size' | 'inventory' | 'dateUploaded';
+
+// Source column header for each product field; null leaves the field unmapped
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface ImportMappingProfile {
+  id: string;
+  name: string;
+  timestamp: number;
+  delimiter: CsvDelimiter;
+  mapping: ColumnMapping;
+}
+
+// ok: downloadable by the engine; cors_blocked: displays but cannot be fetched,
+// so it needs a manual upload; broken: unreachable; missing: no URL at all
+export type ImageCheckStatus = 'ok' | 'cors_blocked' | 'broken' | 'missing';
+
+export interface ImageProbe {
+  status: ImageCheckStatus;
+  httpStatus?: number;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  checkedAt: number;
+}
+
+export interface ProductVariant {
+  options: Record<string, string>;
+  size?: string;
+  sku?: string;
+  price: string;
+  inventory?: string;
 }
 
 export interface Product {
@@ -52,14 +247,73 @@ export interface Product {
   description: string;
   imageUrl: string;
   thumbnailUrl: string;
+  // Every image listed for the product, starting with imageUrl
+  galleryUrls?: string[];
   price: string;
   size?: string;
   dateUploaded: number;
   collection?: string;
   sku?: string;
+  visionIds?: string[];
+  sourcePlatform?: StorePlatform;
+  blueprintId?: string;
+  brandProfileId?: string;
+  importedValues?: EditableProductFields;
+  variants?: ProductVariant[];
+  imageCheck?: { image: ImageProbe; thumbnail?: ImageProbe };
+  // A relinked local file (pattern store id) used in place of an unreachable imageUrl
+  localImageId?: string;
+  // The unmodified rows this product was parsed from, kept so export can round-trip them
+  sourceHeaders?: string[];
+  sourceRows?: string[][];
+}
+
+export type EditableProductFields = Pick<Product, 'name' | 'price' | 'sku' | 'size' | 'collection' | 'description'>;
+
+export interface ExportEntry extends Product {
+  generatedImageUrls: string[];
+  // The vision each generated image came from, index-aligned; '' for images added by hand
+  generatedVisionIds?: string[];
 }
 
 export interface GenerationStatus {
   step: 'idle' | 'profiling' | 'production' | 'rendering' | 'completed' | 'error';
   message: string;
 }
+
+// The Studio settings a batch renders with, captured when it is queued
+export interface BatchStudioSettings {
+  ethnicity: Ethnicity;
+  gender: Gender;
+  patternScale: number;
+  brightness: number;
+  // For products without a blueprint or brand profile of their own
+  blueprintId: string;
+  brandProfileId: string;
+  brandQaEnabled: boolean;
+  autoFixQaFailures: boolean;
+}
+
+export interface BatchRenderSettings {
+  poses: ModelPose[];
+  locations: PoseStyle[];
+  bodyShapes: BodyShape[];
+  aspectRatios: AspectRatio[];
+  // When set, each cast model replaces the body shape dimension
+  castModelIds: string[];
+  studio: BatchStudioSettings;
+}
+
+export interface BatchJob {
+  id: string;
+  handleId: string;
+  productName: string;
+  imageUrl: string;
+  modelPose: ModelPose;
+  locationStyle: PoseStyle;
+  bodyShape: BodyShape;
+  aspectRatio: AspectRatio;
+  castModelId?: string;
+  castName?: string;
+  status: GenerationStatus;
+}
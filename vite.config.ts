@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ENGINE_PROVIDER': JSON.stringify(env.ENGINE_PROVIDER),
+        'process.env.ENGINE_TEXT_MODEL': JSON.stringify(env.ENGINE_TEXT_MODEL),
+        'process.env.ENGINE_IMAGE_MODEL': JSON.stringify(env.ENGINE_IMAGE_MODEL)
       },
       resolve: {
         alias: {